@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "college_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "colleges" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "domains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "city" TEXT,
+    "state" TEXT,
+    "country" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "colleges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "colleges_name_key" ON "colleges"("name");
+
+-- CreateIndex
+CREATE INDEX "colleges_domains_idx" ON "colleges" USING GIN ("domains");
+
+-- CreateIndex
+CREATE INDEX "users_college_id_idx" ON "users"("college_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_college_id_fkey" FOREIGN KEY ("college_id") REFERENCES "colleges"("id") ON DELETE SET NULL ON UPDATE CASCADE;
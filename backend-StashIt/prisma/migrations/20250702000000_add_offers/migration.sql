@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "offer_status_enum" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'COUNTERED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "reserved_for_id" TEXT,
+ADD COLUMN     "reserved_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "offers" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "buyer_id" TEXT NOT NULL,
+    "seller_id" TEXT NOT NULL,
+    "proposed_by_id" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "message" TEXT,
+    "status" "offer_status_enum" NOT NULL DEFAULT 'PENDING',
+    "counter_of_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "offers_counter_of_id_key" ON "offers"("counter_of_id");
+
+-- CreateIndex
+CREATE INDEX "offers_conversation_id_idx" ON "offers"("conversation_id");
+
+-- CreateIndex
+CREATE INDEX "offers_product_id_idx" ON "offers"("product_id");
+
+-- CreateIndex
+CREATE INDEX "offers_status_expires_at_idx" ON "offers"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_reserved_for_id_fkey" FOREIGN KEY ("reserved_for_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_buyer_id_fkey" FOREIGN KEY ("buyer_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_seller_id_fkey" FOREIGN KEY ("seller_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_proposed_by_id_fkey" FOREIGN KEY ("proposed_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offers" ADD CONSTRAINT "offers_counter_of_id_fkey" FOREIGN KEY ("counter_of_id") REFERENCES "offers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
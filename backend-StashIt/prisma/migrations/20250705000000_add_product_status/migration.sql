@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "product_status_enum" AS ENUM ('DRAFT', 'ACTIVE', 'RESERVED', 'SOLD', 'EXPIRED', 'REMOVED');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "status" "product_status_enum" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "expires_at" TIMESTAMP(3);
+
+-- Backfill status from the availability flag; unavailable products with a
+-- reserved buyer were reserved through an accepted offer
+UPDATE "products" SET "status" = CASE
+    WHEN "is_available" THEN 'ACTIVE'::"product_status_enum"
+    WHEN "reserved_for_id" IS NOT NULL THEN 'RESERVED'::"product_status_enum"
+    ELSE 'SOLD'::"product_status_enum"
+END;
+
+UPDATE "products" SET "expires_at" = NOW() + INTERVAL '60 days' WHERE "status" = 'ACTIVE';
+
+-- AlterTable
+ALTER TABLE "products" DROP COLUMN "is_available";
+
+-- CreateIndex
+CREATE INDEX "products_status_idx" ON "products"("status");
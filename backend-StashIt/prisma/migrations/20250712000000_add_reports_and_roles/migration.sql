@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "user_role_enum" AS ENUM ('USER', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "report_target_type_enum" AS ENUM ('PRODUCT', 'USER', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "report_reason_enum" AS ENUM ('SCAM', 'SPAM', 'ABUSE', 'PROHIBITED_ITEM', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "report_status_enum" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" "user_role_enum" NOT NULL DEFAULT 'USER',
+ADD COLUMN     "is_suspended" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "suspended_at" TIMESTAMP(3),
+ADD COLUMN     "suspension_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "reports" (
+    "id" TEXT NOT NULL,
+    "reporter_id" TEXT NOT NULL,
+    "target_type" "report_target_type_enum" NOT NULL,
+    "reported_user_id" TEXT NOT NULL,
+    "product_id" TEXT,
+    "message_id" TEXT,
+    "reason" "report_reason_enum" NOT NULL,
+    "details" TEXT,
+    "status" "report_status_enum" NOT NULL DEFAULT 'OPEN',
+    "resolved_by_id" TEXT,
+    "resolution" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reports_status_created_at_idx" ON "reports"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "reports_reported_user_id_idx" ON "reports"("reported_user_id");
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporter_id_fkey" FOREIGN KEY ("reporter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reported_user_id_fkey" FOREIGN KEY ("reported_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
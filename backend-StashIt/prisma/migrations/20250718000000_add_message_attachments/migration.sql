@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "attachment_type_enum" AS ENUM ('IMAGE', 'LISTING');
+
+-- CreateTable
+CREATE TABLE "message_attachments" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT,
+    "user_id" TEXT NOT NULL,
+    "type" "attachment_type_enum" NOT NULL,
+    "url" TEXT,
+    "thumbnail_url" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "product_id" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_attachments_message_id_idx" ON "message_attachments"("message_id");
+
+-- CreateIndex
+CREATE INDEX "message_attachments_user_id_idx" ON "message_attachments"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
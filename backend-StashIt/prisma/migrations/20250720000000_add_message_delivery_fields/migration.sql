@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "client_message_id" TEXT,
+ADD COLUMN     "read_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_sender_id_client_message_id_key" ON "messages"("sender_id", "client_message_id");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "conversation_id" TEXT;
+
+-- Backfill: create conversations for message threads that never got one
+INSERT INTO "conversations" ("id", "user1_id", "user2_id", "product_id", "last_message_at", "created_at")
+SELECT gen_random_uuid()::text,
+       LEAST(m."sender_id", m."receiver_id"),
+       GREATEST(m."sender_id", m."receiver_id"),
+       m."product_id",
+       MAX(m."created_at"),
+       MIN(m."created_at")
+FROM "messages" m
+WHERE NOT EXISTS (
+    SELECT 1 FROM "conversations" c
+    WHERE c."product_id" = m."product_id"
+      AND ((c."user1_id" = m."sender_id" AND c."user2_id" = m."receiver_id")
+        OR (c."user1_id" = m."receiver_id" AND c."user2_id" = m."sender_id"))
+)
+GROUP BY m."product_id", LEAST(m."sender_id", m."receiver_id"), GREATEST(m."sender_id", m."receiver_id");
+
+-- Backfill: point every message at its conversation
+UPDATE "messages" m
+SET "conversation_id" = c."id"
+FROM "conversations" c
+WHERE c."product_id" = m."product_id"
+  AND ((c."user1_id" = m."sender_id" AND c."user2_id" = m."receiver_id")
+    OR (c."user1_id" = m."receiver_id" AND c."user2_id" = m."sender_id"));
+
+-- AlterTable
+ALTER TABLE "messages" ALTER COLUMN "conversation_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "messages_conversation_id_created_at_idx" ON "messages"("conversation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
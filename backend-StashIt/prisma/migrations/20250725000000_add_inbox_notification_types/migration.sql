@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "notification_type_enum" ADD VALUE 'NEW_MESSAGE';
+ALTER TYPE "notification_type_enum" ADD VALUE 'OFFER';
+ALTER TYPE "notification_type_enum" ADD VALUE 'REVIEW';
+ALTER TYPE "notification_type_enum" ADD VALUE 'MODERATION';
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_created_at_idx" ON "notifications"("user_id", "created_at");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "conversation_states" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "is_archived" BOOLEAN NOT NULL DEFAULT false,
+    "is_muted" BOOLEAN NOT NULL DEFAULT false,
+    "pinned_at" TIMESTAMP(3),
+    "is_deleted" BOOLEAN NOT NULL DEFAULT false,
+    "hidden_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversation_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_states_conversation_id_user_id_key" ON "conversation_states"("conversation_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "conversation_states_user_id_idx" ON "conversation_states"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "conversation_states" ADD CONSTRAINT "conversation_states_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_states" ADD CONSTRAINT "conversation_states_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
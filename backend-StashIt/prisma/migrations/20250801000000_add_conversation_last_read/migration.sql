@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "conversation_states" ADD COLUMN "last_read_at" TIMESTAMP(3);
+
+-- Start each participant's read pointer at the newest message they have already read
+INSERT INTO "conversation_states" ("id", "conversation_id", "user_id", "last_read_at", "updated_at")
+SELECT gen_random_uuid()::text, "conversation_id", "receiver_id", MAX("created_at"), CURRENT_TIMESTAMP
+FROM "messages"
+WHERE "is_read" = true
+GROUP BY "conversation_id", "receiver_id"
+ON CONFLICT ("conversation_id", "user_id") DO UPDATE SET "last_read_at" = EXCLUDED."last_read_at";
+
@@ -0,0 +1,9 @@
+-- AlterTable
+-- Title words weigh more than description words when ranking matches
+ALTER TABLE "products" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "products_search_vector_idx" ON "products" USING GIN ("search_vector");
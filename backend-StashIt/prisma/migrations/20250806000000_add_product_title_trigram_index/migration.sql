@@ -0,0 +1,5 @@
+-- Trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "products_title_idx" ON "products" USING GIN ("title" gin_trgm_ops);
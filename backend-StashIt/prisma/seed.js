@@ -6,6 +6,28 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('🌱 Starting database seeding...');
 
+  // Create sample colleges
+  const [universityOfTechnology, collegeOfEngineering] = await Promise.all([
+    prisma.college.create({
+      data: {
+        name: 'University of Technology',
+        domains: ['university.edu'],
+        city: 'Springfield',
+        country: 'USA'
+      }
+    }),
+    prisma.college.create({
+      data: {
+        name: 'College of Engineering',
+        domains: ['college.edu'],
+        city: 'Riverside',
+        country: 'USA'
+      }
+    })
+  ]);
+
+  console.log('✅ Created 2 colleges');
+
   // Create sample users
   const hashedPassword = await bcrypt.hash('password123', 12);
 
@@ -16,9 +38,11 @@ async function main() {
         password: hashedPassword,
         firstName: 'John',
         lastName: 'Doe',
-        college: 'University of Technology',
+        college: universityOfTechnology.name,
+        collegeId: universityOfTechnology.id,
         phone: '+1234567890',
-        isVerified: true
+        isVerified: true,
+        role: 'ADMIN'
       }
     }),
     prisma.user.create({
@@ -27,7 +51,8 @@ async function main() {
         password: hashedPassword,
         firstName: 'Jane',
         lastName: 'Smith',
-        college: 'College of Engineering',
+        college: collegeOfEngineering.name,
+        collegeId: collegeOfEngineering.id,
         phone: '+1234567891',
         isVerified: true
       }
@@ -38,7 +63,8 @@ async function main() {
         password: hashedPassword,
         firstName: 'Mike',
         lastName: 'Wilson',
-        college: 'University of Technology',
+        college: universityOfTechnology.name,
+        collegeId: universityOfTechnology.id,
         phone: '+1234567892',
         isVerified: true
       }
@@ -49,7 +75,8 @@ async function main() {
         password: hashedPassword,
         firstName: 'Sarah',
         lastName: 'Johnson',
-        college: 'College of Engineering',
+        college: collegeOfEngineering.name,
+        collegeId: collegeOfEngineering.id,
         phone: '+1234567893',
         isVerified: true
       }
@@ -70,7 +97,7 @@ async function main() {
         condition: 'GOOD',
         category: 'BOOKS',
         images: ['https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     prisma.product.create({
@@ -82,7 +109,7 @@ async function main() {
         condition: 'LIKE_NEW',
         category: 'BOOKS',
         images: ['https://images.unsplash.com/photo-1509021436665-8f07dbf5bf1d?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     // Electronics
@@ -95,7 +122,7 @@ async function main() {
         condition: 'LIKE_NEW',
         category: 'ELECTRONICS',
         images: ['https://images.unsplash.com/photo-1541807084-5c52b6b3adef?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     prisma.product.create({
@@ -107,7 +134,7 @@ async function main() {
         condition: 'GOOD',
         category: 'ELECTRONICS',
         images: ['https://images.unsplash.com/photo-1544244015-0df4b3ffc6b0?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     // Furniture
@@ -120,7 +147,7 @@ async function main() {
         condition: 'GOOD',
         category: 'FURNITURE',
         images: ['https://images.unsplash.com/photo-1586023492125-27b2c045efd7?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     prisma.product.create({
@@ -132,7 +159,7 @@ async function main() {
         condition: 'GOOD',
         category: 'FURNITURE',
         images: ['https://images.unsplash.com/photo-1586023492125-27b2c045efd7?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     // Clothing
@@ -145,7 +172,7 @@ async function main() {
         condition: 'LIKE_NEW',
         category: 'CLOTHING',
         images: ['https://images.unsplash.com/photo-1556821840-3a63f95609a7?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     // Sports
@@ -158,7 +185,7 @@ async function main() {
         condition: 'GOOD',
         category: 'SPORTS',
         images: ['https://images.unsplash.com/photo-1622279457486-62dcc4a431d6?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     }),
     // Food
@@ -171,7 +198,7 @@ async function main() {
         condition: 'LIKE_NEW',
         category: 'FOOD',
         images: ['https://images.unsplash.com/photo-1517701550927-30cf4ba1dba5?w=400'],
-        isAvailable: true
+        status: 'ACTIVE'
       }
     })
   ]);
@@ -201,6 +228,7 @@ async function main() {
   await Promise.all([
     prisma.message.create({
       data: {
+        conversationId: conversation1.id,
         senderId: users[1].id, // Jane
         receiverId: users[0].id, // John
         productId: products[0].id, // Computer Science book
@@ -210,6 +238,7 @@ async function main() {
     }),
     prisma.message.create({
       data: {
+        conversationId: conversation1.id,
         senderId: users[0].id, // John
         receiverId: users[1].id, // Jane
         productId: products[0].id, // Computer Science book
@@ -219,6 +248,7 @@ async function main() {
     }),
     prisma.message.create({
       data: {
+        conversationId: conversation2.id,
         senderId: users[2].id, // Mike
         receiverId: users[0].id, // John
         productId: products[2].id, // MacBook
@@ -58,6 +58,27 @@ const services = {
       '^/api/users': '/users'
     }
   },
+  college: {
+    target: getServiceUrl(process.env.USER_SERVICE_PORT || 3002, 'user'),
+    changeOrigin: true,
+    pathRewrite: {
+      '^/api/colleges': '/colleges'
+    }
+  },
+  report: {
+    target: getServiceUrl(process.env.USER_SERVICE_PORT || 3002, 'user'),
+    changeOrigin: true,
+    pathRewrite: {
+      '^/api/reports': '/reports'
+    }
+  },
+  admin: {
+    target: getServiceUrl(process.env.USER_SERVICE_PORT || 3002, 'user'),
+    changeOrigin: true,
+    pathRewrite: {
+      '^/api/admin': '/admin'
+    }
+  },
   product: {
     target: getServiceUrl(process.env.PRODUCT_SERVICE_PORT || 3003, 'product'),
     changeOrigin: true,
@@ -79,6 +100,13 @@ const services = {
       '^/api/messages': '/messages'
     }
   },
+  notification: {
+    target: getServiceUrl(process.env.MESSAGING_SERVICE_PORT || 3005, 'messaging'),
+    changeOrigin: true,
+    pathRewrite: {
+      '^/api/notifications': '/notifications'
+    }
+  },
   wishlist: {
     target: getServiceUrl(process.env.WISHLIST_SERVICE_PORT || 3006, 'wishlist'),
     changeOrigin: true,
@@ -113,9 +141,14 @@ const onProxyReq = (proxyReq, req, res) => {
 // Setup proxy routes
 app.use('/api/auth', createProxyMiddleware({ ...services.auth, onError, onProxyReq }));
 app.use('/api/users', createProxyMiddleware({ ...services.user, onError, onProxyReq }));
+app.use('/api/colleges', createProxyMiddleware({ ...services.college, onError, onProxyReq }));
+app.use('/api/reports', createProxyMiddleware({ ...services.report, onError, onProxyReq }));
+app.use('/api/admin', createProxyMiddleware({ ...services.admin, onError, onProxyReq }));
 app.use('/api/products', createProxyMiddleware({ ...services.product, onError, onProxyReq }));
 app.use('/api/search', createProxyMiddleware({ ...services.search, onError, onProxyReq }));
 app.use('/api/messages', createProxyMiddleware({ ...services.messaging, onError, onProxyReq }));
+app.use('/api/notifications', createProxyMiddleware({ ...services.notification, onError, onProxyReq }));
+app.use('/api/wishlist', createProxyMiddleware({ ...services.wishlist, onError, onProxyReq }));
 
 // API documentation endpoint
 app.get('/api/docs', (req, res) => {
@@ -145,10 +178,61 @@ app.get('/api/docs', (req, res) => {
       messages: {
         base: '/api/messages',
         endpoints: [
-          'GET /conversations - Get user conversations',
+          'GET /conversations - Get user conversations (?filter=inbox|archived|muted|all)',
           'GET /conversations/:id - Get conversation messages',
+          'GET /unread-count - Count unread messages',
+          'PATCH /conversation/:id/state - Archive, mute or pin a conversation',
+          'DELETE /conversation/:id - Delete a conversation for yourself',
           'POST / - Send message'
         ]
+      },
+      notifications: {
+        base: '/api/notifications',
+        endpoints: [
+          'GET / - Notification inbox (?before= cursor, ?unread=true)',
+          'GET /unread-count - Count unread notifications',
+          'PUT /read-all - Mark every notification as read',
+          'PUT /:id/read - Mark a notification as read'
+        ]
+      },
+      wishlist: {
+        base: '/api/wishlist',
+        endpoints: [
+          'GET / - Get user wishlist',
+          'GET /ids - Get wishlisted product ids',
+          'GET /count - Get wishlist count',
+          'GET /check/:productId - Check if product is in wishlist',
+          'POST /:productId - Add product to wishlist',
+          'DELETE /:productId - Remove product from wishlist',
+          'DELETE /clear - Clear entire wishlist'
+        ]
+      },
+      colleges: {
+        base: '/api/colleges',
+        endpoints: [
+          'GET / - List colleges (?email= looks up the college for an email)',
+          'GET /:id - Get college by id',
+          'POST / - Create college (admin)',
+          'PUT /:id - Update college (admin)',
+          'DELETE /:id - Delete college without users (admin)'
+        ]
+      },
+      reports: {
+        base: '/api/reports',
+        endpoints: [
+          'POST / - Report a product, user or message'
+        ]
+      },
+      admin: {
+        base: '/api/admin',
+        endpoints: [
+          'GET /reports - Moderation queue (admin)',
+          'PATCH /reports/:id - Resolve or dismiss a report (admin)',
+          'POST /products/:id/hide - Hide a listing (admin)',
+          'POST /products/:id/restore - Restore a hidden listing (admin)',
+          'POST /users/:id/suspend - Suspend a user and sign them out (admin)',
+          'POST /users/:id/unsuspend - Lift a suspension (admin)'
+        ]
       }
     }
   });
@@ -164,7 +248,12 @@ app.use('*', (req, res) => {
       '/api/users', 
       '/api/products',
       '/api/search',
-      '/api/messages'
+      '/api/messages',
+      '/api/notifications',
+      '/api/wishlist',
+      '/api/colleges',
+      '/api/reports',
+      '/api/admin'
     ]
   });
 });
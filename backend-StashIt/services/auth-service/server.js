@@ -1,11 +1,17 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
 const cors = require('cors');
 const helmet = require('helmet');
+const { v4: uuidv4 } = require('uuid');
 const { prisma, connectDatabase, healthCheck } = require('../../config/database');
-const { redis, connectRedis } = require('../../config/redis');
+const { redis, connectRedis, redisUtils } = require('../../config/redis');
+const { verifyAccessToken, verifyToken } = require('../../shared/middleware/auth');
 const { userSchemas } = require('../../shared/utils/validation');
+const { sendMail } = require('../../shared/utils/mailer');
+const { findCollegeByEmail } = require('../../shared/utils/colleges');
+const { revokeSession, getUserSessions } = require('../../shared/utils/sessions');
 require('dotenv').config();
 
 const app = express();
@@ -16,26 +22,34 @@ app.use(helmet());
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
-// College email domains for validation
-const COLLEGE_DOMAINS = [
-  'university.edu',
-  'college.edu',
-  'university.ac.in',
-  'student.university.edu',
-  'iiit.ac.in',
-  'iit.ac.in',
-  'nit.ac.in',
-  'gmail.com' // For demo purposes
-];
+// Token lifetimes
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60;
+// How long a just-rotated refresh token still returns the tokens that
+// replaced it, for a second tab that sent it at the same time
+const REFRESH_GRACE_PERIOD = 30;
+
+// Email verification limits
+const EMAIL_VERIFICATION_TTL = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24') * 60 * 60;
+const VERIFICATION_RESEND_COOLDOWN = 60;
+const MAX_VERIFICATION_EMAILS_PER_HOUR = 5;
+const MAX_VERIFICATION_CODE_ATTEMPTS = 5;
+
+// Password reset limits
+const PASSWORD_RESET_TTL = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60') * 60;
+const PASSWORD_RESET_COOLDOWN = 60;
 
 // Utility functions
-const generateToken = (userId) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '7d' });
+const generateToken = (userId, sessionId) => {
+  return jwt.sign({ userId, sid: sessionId }, process.env.JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN });
 };
 
-const isValidCollegeEmail = (email) => {
-  const domain = email.split('@')[1];
-  return COLLEGE_DOMAINS.includes(domain);
+const hashToken = (token) => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const generateRefreshToken = (sessionId) => {
+  return `${sessionId}.${crypto.randomBytes(48).toString('hex')}`;
 };
 
 const blacklistToken = async (token) => {
@@ -52,6 +66,158 @@ const blacklistToken = async (token) => {
   }
 };
 
+// Session management
+// Each login creates a session in Redis holding the hash of its current
+// refresh token and the last access token issued for it. Refreshing rotates
+// both; revoking a session blacklists its access token.
+const createSession = async (userId, req) => {
+  const sessionId = uuidv4();
+  const refreshToken = generateRefreshToken(sessionId);
+  const accessToken = generateToken(userId, sessionId);
+  const now = new Date().toISOString();
+
+  await redisUtils.setEx(`session:${sessionId}`, {
+    id: sessionId,
+    userId,
+    refreshTokenHash: hashToken(refreshToken),
+    accessToken,
+    userAgent: req.headers['user-agent'] || 'Unknown device',
+    ip: req.headers['x-forwarded-for'] || req.ip,
+    createdAt: now,
+    lastUsedAt: now
+  }, REFRESH_TOKEN_TTL);
+
+  await redis.sAdd(`sessions:${userId}`, sessionId);
+  await redis.expire(`sessions:${userId}`, REFRESH_TOKEN_TTL);
+
+  return { token: accessToken, refreshToken };
+};
+
+const rotateSession = async (session, previousRefreshToken) => {
+  const refreshToken = generateRefreshToken(session.id);
+  const accessToken = generateToken(session.userId, session.id);
+
+  await blacklistToken(session.accessToken);
+  await redisUtils.setEx(`session:${session.id}`, {
+    ...session,
+    refreshTokenHash: hashToken(refreshToken),
+    accessToken,
+    lastUsedAt: new Date().toISOString()
+  }, REFRESH_TOKEN_TTL);
+  await redis.expire(`sessions:${session.userId}`, REFRESH_TOKEN_TTL);
+
+  const tokens = { token: accessToken, refreshToken };
+  await redisUtils.setEx(`refresh-grace:${hashToken(previousRefreshToken)}`, tokens, REFRESH_GRACE_PERIOD);
+
+  return tokens;
+};
+
+const formatSession = (session, currentSessionId) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  current: session.id === currentSessionId
+});
+
+// Email verification
+// Each verification email carries a link with an opaque token (the user id
+// and a random secret) and a 6-digit code. Redis keeps only the hashes of the
+// latest token and code, so sending a new email invalidates the previous one
+// and each can be used only once. Guesses at the code are counted in their
+// own key so the count can be incremented atomically.
+const sendVerificationEmail = async (user) => {
+  const token = `${user.id}.${crypto.randomBytes(32).toString('hex')}`;
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  await redisUtils.setEx(`email-verification:${user.id}`, {
+    tokenHash: hashToken(token),
+    codeHash: hashToken(code)
+  }, EMAIL_VERIFICATION_TTL);
+  await redisUtils.del(`email-verification:attempts:${user.id}`);
+
+  // Start the resend cooldown and count towards the hourly limit
+  await redis.setEx(`email-verification:cooldown:${user.id}`, VERIFICATION_RESEND_COOLDOWN, 'true');
+  const sentThisHour = await redis.incr(`email-verification:sent:${user.id}`);
+  if (sentThisHour === 1) {
+    await redis.expire(`email-verification:sent:${user.id}`, 60 * 60);
+  }
+
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Stash It email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Confirm your email address by opening this link:',
+      link,
+      '',
+      `Or enter this code: ${code}`,
+      '',
+      `The link and code expire in ${EMAIL_VERIFICATION_TTL / 3600} hours.`
+    ].join('\n'),
+    html: `<p>Hi ${user.firstName},</p>
+<p>Confirm your email address by opening <a href="${link}">this link</a>.</p>
+<p>Or enter this code: <strong>${code}</strong></p>
+<p>The link and code expire in ${EMAIL_VERIFICATION_TTL / 3600} hours.</p>`
+  });
+};
+
+// Seconds until another verification email may be sent, or 0 if allowed
+const getVerificationRetryAfter = async (userId) => {
+  const cooldown = await redis.ttl(`email-verification:cooldown:${userId}`);
+  if (cooldown > 0) {
+    return cooldown;
+  }
+
+  const sentThisHour = parseInt(await redis.get(`email-verification:sent:${userId}`) || '0');
+  if (sentThisHour >= MAX_VERIFICATION_EMAILS_PER_HOUR) {
+    return Math.max(await redis.ttl(`email-verification:sent:${userId}`), 1);
+  }
+
+  return 0;
+};
+
+// Password reset
+// The reset token is only ever stored hashed. password-reset:user:<id> points
+// at the user's latest token so requesting a new one invalidates the old one.
+const sendPasswordResetEmail = async (user) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const tokenHash = hashToken(token);
+
+  const previousHash = await redis.get(`password-reset:user:${user.id}`);
+  if (previousHash) {
+    await redisUtils.del(`password-reset:${previousHash}`);
+  }
+
+  await redisUtils.setEx(`password-reset:${tokenHash}`, { userId: user.id }, PASSWORD_RESET_TTL);
+  await redis.setEx(`password-reset:user:${user.id}`, PASSWORD_RESET_TTL, tokenHash);
+  await redis.setEx(`password-reset:cooldown:${user.id}`, PASSWORD_RESET_COOLDOWN, 'true');
+
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Stash It password',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Someone asked to reset the password for your Stash It account.',
+      'Open this link to choose a new password:',
+      link,
+      '',
+      `The link expires in ${PASSWORD_RESET_TTL / 60} minutes. If you didn't ask for this, you can ignore this email.`
+    ].join('\n'),
+    html: `<p>Hi ${user.firstName},</p>
+<p>Someone asked to reset the password for your Stash It account.</p>
+<p><a href="${link}">Choose a new password</a></p>
+<p>The link expires in ${PASSWORD_RESET_TTL / 60} minutes. If you didn't ask for this, you can ignore this email.</p>`
+  });
+};
+
 // Auth routes
 app.post('/auth/register', async (req, res) => {
   try {
@@ -64,13 +230,14 @@ app.post('/auth/register', async (req, res) => {
       });
     }
 
-    const { email, password, firstName, lastName, college, phone } = value;
+    const { email, password, firstName, lastName, phone } = value;
 
-    // Validate college email
-    if (!isValidCollegeEmail(email)) {
+    // The college is derived from the email domain
+    const college = await findCollegeByEmail(email);
+    if (!college) {
       return res.status(400).json({
         success: false,
-        message: 'Please use a valid college email address'
+        message: 'Please use an email address from a supported college'
       });
     }
 
@@ -96,7 +263,8 @@ app.post('/auth/register', async (req, res) => {
         password: hashedPassword,
         firstName,
         lastName,
-        college,
+        college: college.name,
+        collegeId: college.id,
         phone
       },
       select: {
@@ -105,21 +273,31 @@ app.post('/auth/register', async (req, res) => {
         firstName: true,
         lastName: true,
         college: true,
+        collegeId: true,
         phone: true,
         isVerified: true,
+        role: true,
         createdAt: true
       }
     });
 
-    // Generate token
-    const token = generateToken(user.id);
+    // Registration succeeds even if the email can't be sent; the user can
+    // request a new one from the app
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    // Start a session
+    const tokens = await createSession(user.id, req);
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
         user,
-        token
+        ...tokens
       }
     });
 
@@ -156,8 +334,11 @@ app.post('/auth/login', async (req, res) => {
         firstName: true,
         lastName: true,
         college: true,
+        collegeId: true,
         phone: true,
         isVerified: true,
+        role: true,
+        isSuspended: true,
         createdAt: true
       }
     });
@@ -178,18 +359,25 @@ app.post('/auth/login', async (req, res) => {
       });
     }
 
-    // Generate token
-    const token = generateToken(user.id);
+    if (user.isSuspended) {
+      return res.status(403).json({
+        success: false,
+        message: 'Your account has been suspended'
+      });
+    }
+
+    // Start a session
+    const tokens = await createSession(user.id, req);
 
     // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    const { password: _, isSuspended: __, ...userWithoutPassword } = user;
 
     res.json({
       success: true,
       message: 'Login successful',
       data: {
         user: userWithoutPassword,
-        token
+        ...tokens
       }
     });
 
@@ -209,6 +397,13 @@ app.post('/auth/logout', async (req, res) => {
     
     if (token) {
       await blacklistToken(token);
+
+      // End the session the token belongs to
+      const decoded = jwt.decode(token);
+      const session = decoded?.sid && await redisUtils.get(`session:${decoded.sid}`);
+      if (session) {
+        await revokeSession(session);
+      }
     }
 
     res.json({
@@ -225,6 +420,456 @@ app.post('/auth/logout', async (req, res) => {
   }
 });
 
+app.post('/auth/refresh', async (req, res) => {
+  try {
+    const { error, value } = userSchemas.refreshToken.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { refreshToken } = value;
+    const [sessionId] = refreshToken.split('.');
+    const session = await redisUtils.get(`session:${sessionId}`);
+
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid refresh token'
+      });
+    }
+
+    if (hashToken(refreshToken) !== session.refreshTokenHash) {
+      // Rotated moments ago by a concurrent request: hand out the same tokens
+      const rotated = await redisUtils.get(`refresh-grace:${hashToken(refreshToken)}`);
+      if (rotated) {
+        return res.json({
+          success: true,
+          message: 'Token refreshed successfully',
+          data: rotated
+        });
+      }
+
+      // An already rotated token was replayed; treat the session as compromised
+      await revokeSession(session);
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token has been revoked'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { id: true, isSuspended: true }
+    });
+
+    if (!user || user.isSuspended) {
+      await revokeSession(session);
+      return res.status(401).json({
+        success: false,
+        message: user ? 'Your account has been suspended' : 'User not found'
+      });
+    }
+
+    const tokens = await rotateSession(session, refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: tokens
+    });
+
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Token refresh failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/auth/sessions', verifyToken, async (req, res) => {
+  try {
+    const sessions = await getUserSessions(req.userId);
+
+    res.json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: {
+        sessions: sessions
+          .map(session => formatSession(session, req.user.sid))
+          .sort((a, b) => new Date(b.lastUsedAt) - new Date(a.lastUsedAt))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve sessions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/auth/sessions', verifyToken, async (req, res) => {
+  try {
+    const includeCurrent = req.query.includeCurrent === 'true';
+    const sessions = await getUserSessions(req.userId);
+    const sessionsToRevoke = sessions.filter(
+      session => includeCurrent || session.id !== req.user.sid
+    );
+
+    await Promise.all(sessionsToRevoke.map(revokeSession));
+
+    res.json({
+      success: true,
+      message: includeCurrent ? 'All sessions revoked' : 'All other sessions revoked',
+      data: { revoked: sessionsToRevoke.length }
+    });
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke sessions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/auth/sessions/:sessionId', verifyToken, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await redisUtils.get(`session:${sessionId}`);
+
+    if (!session || session.userId !== req.userId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await revokeSession(session);
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke session',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/auth/verify-email', async (req, res) => {
+  try {
+    const { error, value } = userSchemas.verifyEmail.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    let userId;
+
+    if (value.token) {
+      const [tokenUserId] = value.token.split('.');
+      const pending = await redisUtils.get(`email-verification:${tokenUserId}`);
+
+      if (!pending || pending.tokenHash !== hashToken(value.token)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Verification link is invalid, has expired or has already been used'
+        });
+      }
+
+      userId = tokenUserId;
+    } else {
+      const user = await prisma.user.findUnique({
+        where: { email: value.email },
+        select: { id: true }
+      });
+      const pending = user && await redisUtils.get(`email-verification:${user.id}`);
+
+      if (!pending) {
+        return res.status(400).json({
+          success: false,
+          message: 'Verification code is invalid or has expired'
+        });
+      }
+
+      // Count the attempt before comparing, so parallel guesses can't all
+      // slip under the limit
+      const attemptsKey = `email-verification:attempts:${user.id}`;
+      const attempts = await redis.incr(attemptsKey);
+      if (attempts === 1) {
+        await redis.expire(attemptsKey, EMAIL_VERIFICATION_TTL);
+      }
+
+      if (attempts > MAX_VERIFICATION_CODE_ATTEMPTS || hashToken(value.code) !== pending.codeHash) {
+        if (attempts >= MAX_VERIFICATION_CODE_ATTEMPTS) {
+          // Too many wrong guesses; the user has to request a new code
+          await redisUtils.del(`email-verification:${user.id}`);
+        }
+
+        return res.status(400).json({
+          success: false,
+          message: 'Verification code is invalid or has expired'
+        });
+      }
+
+      userId = user.id;
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { isVerified: true },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        college: true,
+        collegeId: true,
+        phone: true,
+        isVerified: true,
+        role: true,
+        createdAt: true
+      }
+    });
+
+    await redisUtils.del(`email-verification:${userId}`);
+    await redisUtils.del(`email-verification:attempts:${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: { user }
+    });
+
+  } catch (error) {
+    console.error('Email verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Email verification failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/auth/resend-verification', verifyToken, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, email: true, firstName: true, isVerified: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.isVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified'
+      });
+    }
+
+    const retryAfter = await getVerificationRetryAfter(user.id);
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: `Please wait ${retryAfter} seconds before requesting another email`,
+        data: { retryAfter }
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send verification email',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/auth/forgot-password', async (req, res) => {
+  try {
+    const { error, value } = userSchemas.forgotPassword.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: value.email },
+      select: { id: true, email: true, firstName: true }
+    });
+
+    // Respond the same way whether or not the account exists
+    if (user && !(await redis.exists(`password-reset:cooldown:${user.id}`))) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request password reset',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/auth/reset-password', async (req, res) => {
+  try {
+    const { error, value } = userSchemas.resetPassword.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const tokenHash = hashToken(value.token);
+    const reset = await redisUtils.get(`password-reset:${tokenHash}`);
+
+    if (!reset) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset link is invalid or has expired'
+      });
+    }
+
+    // Consume the token before doing anything else so it can't be reused
+    await redisUtils.del(`password-reset:${tokenHash}`);
+    await redisUtils.del(`password-reset:user:${reset.userId}`);
+
+    const hashedPassword = await bcrypt.hash(value.password, 12);
+    await prisma.user.update({
+      where: { id: reset.userId },
+      data: { password: hashedPassword }
+    });
+
+    // Sign the account out everywhere
+    const sessions = await getUserSessions(reset.userId);
+    await Promise.all(sessions.map(revokeSession));
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Password reset failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/auth/change-password', verifyToken, async (req, res) => {
+  try {
+    const { error, value } = userSchemas.changePassword.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { currentPassword, newPassword } = value;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, password: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!isValidPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    if (currentPassword === newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be different from the current password'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword }
+    });
+
+    // Keep this session, sign out every other device
+    const sessions = await getUserSessions(user.id);
+    const otherSessions = sessions.filter(session => session.id !== req.user.sid);
+    await Promise.all(otherSessions.map(revokeSession));
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+      data: { revokedSessions: otherSessions.length }
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to change password',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 app.post('/auth/verify-token', async (req, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
@@ -246,7 +891,7 @@ app.post('/auth/verify-token', async (req, res) => {
     }
 
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const decoded = verifyAccessToken(token);
     
     // Get user details
     const user = await prisma.user.findUnique({
@@ -257,8 +902,10 @@ app.post('/auth/verify-token', async (req, res) => {
         firstName: true,
         lastName: true,
         college: true,
+        collegeId: true,
         phone: true,
         isVerified: true,
+        role: true,
         createdAt: true
       }
     });
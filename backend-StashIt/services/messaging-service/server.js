@@ -2,11 +2,27 @@ const express = require('express');
 const cors = require('cors');
 const http = require('http');
 const { Server } = require('socket.io');
+const { createAdapter } = require('@socket.io/redis-adapter');
+const multer = require('multer');
+const cloudinary = require('cloudinary').v2;
+const { Prisma } = require('@prisma/client');
 const { prisma, connectDatabase, healthCheck } = require('../../config/database');
 const { client: redis, connectRedis, redisUtils } = require('../../config/redis');
-const { verifyToken } = require('../../shared/middleware/auth');
-const { messageSchemas, validate, commonSchemas } = require('../../shared/utils/validation');
-const jwt = require('jsonwebtoken');
+const { verifyAccessToken, verifyToken, requireVerified, isUserVerified } = require('../../shared/middleware/auth');
+const { MAX_MESSAGE_ATTACHMENTS, messageSchemas, notificationSchemas, validate, commonSchemas } = require('../../shared/utils/validation');
+const { CHANNELS, USER_EVENTS, subscribe } = require('../../shared/utils/events');
+const { notifyUsers } = require('../../shared/utils/notifications');
+const { PRODUCT_STATUS, PRIVATE_STATUSES, getStatusChangeData } = require('../../shared/utils/productStatus');
+const { isBlockedBetween, getBlockedUserIds } = require('../../shared/utils/blocks');
+const {
+  startPresenceHeartbeat,
+  userConnected,
+  userDisconnected,
+  getPresence,
+  getOnlineUserIds
+} = require('../../shared/utils/presence');
+const { invalidateSearchCache } = require('../../shared/utils/searchCache');
+const { runExclusively } = require('../../shared/utils/locks');
 require('dotenv').config();
 
 const app = express();
@@ -20,18 +36,609 @@ const io = new Server(server, {
 
 const PORT = process.env.MESSAGING_SERVICE_PORT || 3005;
 
+// Configure Cloudinary
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET
+});
+
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Store active socket connections
-const activeUsers = new Map();
+// Configure multer for image attachments
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB per file
+    files: MAX_MESSAGE_ATTACHMENTS
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'), false);
+    }
+  }
+});
+
+const uploadToCloudinary = (buffer, options = {}) => {
+  return new Promise((resolve, reject) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        resource_type: 'image',
+        folder: 'stashit/messages',
+        transformation: [
+          { width: 1600, height: 1600, crop: 'limit' },
+          { quality: 'auto', fetch_format: 'auto' }
+        ],
+        ...options
+      },
+      (error, result) => {
+        if (error) reject(error);
+        else resolve(result);
+      }
+    );
+    uploadStream.end(buffer);
+  });
+};
+
+const getThumbnailUrl = (publicId) => cloudinary.url(publicId, {
+  secure: true,
+  width: 320,
+  height: 320,
+  crop: 'fill',
+  quality: 'auto',
+  fetch_format: 'auto'
+});
+
+// Offer lifetime
+const OFFER_TTL = parseInt(process.env.OFFER_TTL_HOURS || '48') * 60 * 60 * 1000;
+
+const BLOCKED_ERROR = 'You can no longer message this user';
+
+// Most users a socket can watch the presence of in one request
+const MAX_PRESENCE_WATCH = 100;
+
+// Most conversations a user can pin to the top of their list
+const MAX_PINNED_CONVERSATIONS = 5;
+
+const offerInclude = {
+  proposedBy: {
+    select: { id: true, firstName: true, lastName: true }
+  },
+  product: {
+    select: { id: true, title: true, category: true, status: true, reservedForId: true, reservedUntil: true }
+  }
+};
+
+const attachmentInclude = {
+  orderBy: { position: 'asc' },
+  include: {
+    product: {
+      select: { id: true, title: true, price: true, images: true, status: true }
+    }
+  }
+};
+
+const messageInclude = {
+  sender: {
+    select: { id: true, firstName: true, lastName: true }
+  },
+  receiver: {
+    select: { id: true, firstName: true, lastName: true }
+  },
+  product: {
+    select: { id: true, title: true }
+  },
+  attachments: attachmentInclude
+};
+
+// Check requested attachments: images must be the sender's own unsent
+// uploads, and shared listings must be visible to the receiver
+const resolveAttachments = async (attachments, senderId) => {
+  const imageIds = attachments.filter(item => item.type === 'IMAGE').map(item => item.attachmentId);
+  const productIds = attachments.filter(item => item.type === 'LISTING').map(item => item.productId);
+
+  if (imageIds.length > 0) {
+    const images = await prisma.messageAttachment.count({
+      where: { id: { in: imageIds }, userId: senderId, type: 'IMAGE', messageId: null }
+    });
+    if (images !== new Set(imageIds).size) {
+      return { error: 'Image attachment not found' };
+    }
+  }
+
+  if (productIds.length > 0) {
+    const products = await prisma.product.count({
+      where: { id: { in: productIds }, status: { notIn: PRIVATE_STATUSES } }
+    });
+    if (products !== new Set(productIds).size) {
+      return { error: 'Shared listing not found' };
+    }
+  }
+
+  return { attachments };
+};
+
+// Create a message and attach its images and listing cards in the order
+// they were sent
+const createMessage = ({ conversationId, senderId, receiverId, productId, content, clientMessageId, attachments }) =>
+  prisma.$transaction(async (tx) => {
+    const message = await tx.message.create({
+      data: { conversationId, senderId, receiverId, productId, content, clientMessageId }
+    });
+
+    for (const [position, attachment] of attachments.entries()) {
+      if (attachment.type === 'IMAGE') {
+        await tx.messageAttachment.update({
+          where: { id: attachment.attachmentId },
+          data: { messageId: message.id, position }
+        });
+      } else {
+        await tx.messageAttachment.create({
+          data: {
+            messageId: message.id,
+            userId: senderId,
+            type: 'LISTING',
+            productId: attachment.productId,
+            position
+          }
+        });
+      }
+    }
+
+    return tx.message.findUnique({
+      where: { id: message.id },
+      include: messageInclude
+    });
+  });
+
+// Notification preview for messages that are only attachments
+const describeMessage = (message) => {
+  if (message.content) return message.content;
+  return message.attachments.some(attachment => attachment.type === 'IMAGE')
+    ? 'Sent a photo'
+    : 'Shared a listing';
+};
+
+// A user's state for a conversation as returned to clients
+const describeConversationState = (state) => ({
+  isArchived: state?.isArchived || false,
+  isMuted: state?.isMuted || false,
+  isPinned: Boolean(state?.pinnedAt)
+});
+
+// Messages and offers a user deleted the conversation after stay hidden
+const visibleAfter = (state) => state?.hiddenUntil
+  ? { createdAt: { gt: state.hiddenUntil } }
+  : {};
+
+// A new message or offer brings a conversation back for a participant who
+// deleted it. db is the Prisma client or a transaction.
+const restoreDeletedConversation = (conversationId, db = prisma) => db.conversationState.updateMany({
+  where: { conversationId, isDeleted: true },
+  data: { isDeleted: false }
+});
+
+// Messages received after this are unread: the later of the user's read
+// pointer and when they deleted the conversation (s is their state row)
+const UNREAD_SINCE = Prisma.sql`COALESCE(GREATEST(s."last_read_at", s."hidden_until"), '-infinity'::timestamp)`;
+
+// Move the user's read pointer up to readUpTo; it never moves back.
+// Returns whether it moved.
+const advanceReadPointer = async (conversationId, userId, readUpTo) => {
+  const { count } = await prisma.conversationState.updateMany({
+    where: {
+      conversationId,
+      userId,
+      OR: [{ lastReadAt: null }, { lastReadAt: { lt: readUpTo } }]
+    },
+    data: { lastReadAt: readUpTo }
+  });
+  if (count > 0) return true;
+
+  // Either there's no state row yet or the pointer is already further on
+  const state = await prisma.conversationState.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    create: { conversationId, userId, lastReadAt: readUpTo },
+    update: {}
+  });
+  return state.lastReadAt.getTime() === readUpTo.getTime();
+};
+
+// Last visible message id and unread count of each conversation for the
+// user, keyed by conversation id
+const getConversationSummaries = async (conversationIds, userId) => {
+  if (conversationIds.length === 0) return {};
+
+  const rows = await prisma.$queryRaw`
+    SELECT c."id" AS "conversationId",
+      last."id" AS "lastMessageId",
+      (
+        SELECT COUNT(*)::int FROM "messages" m
+        WHERE m."conversation_id" = c."id"
+          AND m."receiver_id" = ${userId}
+          AND m."created_at" > ${UNREAD_SINCE}
+      ) AS "unreadCount"
+    FROM "conversations" c
+    LEFT JOIN "conversation_states" s
+      ON s."conversation_id" = c."id" AND s."user_id" = ${userId}
+    LEFT JOIN LATERAL (
+      SELECT m."id" FROM "messages" m
+      WHERE m."conversation_id" = c."id"
+        AND m."created_at" > COALESCE(s."hidden_until", '-infinity'::timestamp)
+      ORDER BY m."created_at" DESC, m."id" DESC
+      LIMIT 1
+    ) last ON true
+    WHERE c."id" IN (${Prisma.join(conversationIds)})
+  `;
+
+  return Object.fromEntries(rows.map(row => [row.conversationId, row]));
+};
+
+// Unread messages across the user's conversations, leaving out muted
+// conversations and users blocked either way
+const getMessageUnreadCount = async (userId) => {
+  const blockedUserIds = await getBlockedUserIds(userId, { includeBlockers: true });
+
+  const [counts] = await prisma.$queryRaw`
+    SELECT COUNT(*)::int AS "unreadCount",
+      COUNT(DISTINCT m."conversation_id")::int AS "conversationCount"
+    FROM "messages" m
+    LEFT JOIN "conversation_states" s
+      ON s."conversation_id" = m."conversation_id" AND s."user_id" = ${userId}
+    WHERE m."receiver_id" = ${userId}
+      AND m."created_at" > ${UNREAD_SINCE}
+      AND COALESCE(s."is_muted", false) = false
+      ${blockedUserIds.length > 0
+        ? Prisma.sql`AND m."sender_id" NOT IN (${Prisma.join(blockedUserIds)})`
+        : Prisma.empty}
+  `;
+
+  return counts;
+};
+
+// Send a user's unread message counts to all of their tabs
+const emitMessageUnreadCount = async (userId) => {
+  io.to(`user:${userId}`).emit('message-unread-count', await getMessageUnreadCount(userId));
+};
+
+// Store a message from a conversation participant and deliver it to the
+// room. Shared by the send-message socket event and the REST fallback. A
+// retry with a clientMessageId the sender already used gets the stored
+// message back instead of a duplicate.
+const sendConversationMessage = async (sender, { conversationId, content, attachments, clientMessageId }) => {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      OR: [
+        { user1Id: sender.id },
+        { user2Id: sender.id }
+      ]
+    },
+    include: {
+      product: {
+        select: { id: true, title: true }
+      }
+    }
+  });
+
+  if (!conversation) {
+    return { status: 404, error: 'Conversation not found' };
+  }
+
+  const receiverId = conversation.user1Id === sender.id ?
+    conversation.user2Id : conversation.user1Id;
+
+  if (await isBlockedBetween(sender.id, receiverId)) {
+    return { status: 403, error: BLOCKED_ERROR };
+  }
+
+  const findExisting = () => prisma.message.findUnique({
+    where: { senderId_clientMessageId: { senderId: sender.id, clientMessageId } },
+    include: messageInclude
+  });
+
+  if (clientMessageId) {
+    const existing = await findExisting();
+    if (existing) return { message: existing };
+  }
+
+  const { error: attachmentError } = await resolveAttachments(attachments, sender.id);
+  if (attachmentError) {
+    return { status: 400, error: attachmentError };
+  }
+
+  let message;
+  try {
+    message = await createMessage({
+      conversationId,
+      senderId: sender.id,
+      receiverId,
+      productId: conversation.productId,
+      content,
+      clientMessageId,
+      attachments
+    });
+  } catch (error) {
+    // The same message sent over the socket and the REST fallback at once
+    if (error.code === 'P2002' && clientMessageId) {
+      return { message: await findExisting() };
+    }
+    throw error;
+  }
+
+  // Update conversation last message time
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { lastMessageAt: new Date() }
+  });
+  await restoreDeletedConversation(conversationId);
+
+  // Emit message to conversation room
+  io.to(`conversation:${conversationId}`).emit('new-message', message);
+
+  // Leave the receiver a notification unless they muted the conversation;
+  // it is pushed to them if they're online and cleared when they read it
+  const receiverState = await prisma.conversationState.findUnique({
+    where: { conversationId_userId: { conversationId, userId: receiverId } },
+    select: { isMuted: true }
+  });
+
+  if (!receiverState?.isMuted) {
+    await emitMessageUnreadCount(receiverId);
+    await notifyUsers([receiverId], {
+      type: 'NEW_MESSAGE',
+      title: `New message from ${sender.firstName}`,
+      body: describeMessage(message),
+      data: {
+        conversationId,
+        messageId: message.id,
+        senderId: sender.id,
+        productTitle: conversation.product.title
+      }
+    });
+  }
+
+  return { message };
+};
+
+// Mark everything the other participant sent in a conversation as read and
+// send them a read receipt
+const markConversationRead = async (conversation, userId) => {
+  const senderId = conversation.user1Id === userId ? conversation.user2Id : conversation.user1Id;
+
+  await clearMessageNotifications(conversation.id, userId);
+
+  const latest = await prisma.message.findFirst({
+    where: { conversationId: conversation.id, receiverId: userId },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true }
+  });
+  if (latest && await advanceReadPointer(conversation.id, userId, latest.createdAt)) {
+    await emitMessageUnreadCount(userId);
+  }
+
+  const unread = await prisma.message.findMany({
+    where: {
+      conversationId: conversation.id,
+      receiverId: userId,
+      isRead: false
+    },
+    select: { id: true }
+  });
+  if (unread.length === 0) return;
+
+  const readAt = new Date();
+  await prisma.message.updateMany({
+    where: { id: { in: unread.map(message => message.id) } },
+    data: { isRead: true, readAt }
+  });
+
+  io.to(`user:${senderId}`).emit('messages-read', {
+    conversationId: conversation.id,
+    messageIds: unread.map(message => message.id),
+    readBy: userId,
+    readAt
+  });
+};
+
+// Tell everyone watching a user that they came online or went offline
+const emitPresence = (userId, presence) => {
+  io.to(`presence:${userId}`).emit('presence-changed', { userId, ...presence });
+};
+
+// Send an offer change to everyone in the conversation
+const emitOfferEvent = (event, offer) => {
+  io.to(`conversation:${offer.conversationId}`).emit(event, offer);
+};
+
+// Mark the user's new message notifications for a conversation as read
+const clearMessageNotifications = async (conversationId, userId) => {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      type: 'NEW_MESSAGE',
+      isRead: false,
+      data: { path: ['conversationId'], equals: conversationId }
+    },
+    data: { isRead: true }
+  });
+
+  if (count > 0) {
+    await emitNotificationCount(userId);
+  }
+};
+
+// Send a user's unread notification count to all of their tabs
+const emitNotificationCount = async (userId) => {
+  const unreadCount = await prisma.notification.count({
+    where: { userId, isRead: false }
+  });
+  io.to(`user:${userId}`).emit('notification-count', { unreadCount });
+};
+
+// Notify the other party of a pending offer they need to respond to, or the
+// proposer that their offer was answered
+const notifyOfferRecipient = async (offer, senderName) => {
+  const isPending = offer.status === 'PENDING';
+  const recipientId = isPending
+    ? (offer.proposedById === offer.buyerId ? offer.sellerId : offer.buyerId)
+    : offer.proposedById;
+  const status = offer.status.toLowerCase();
+
+  await notifyUsers([recipientId], {
+    type: 'OFFER',
+    title: isPending ? 'New offer' : `Offer ${status}`,
+    body: isPending
+      ? `${senderName} offered $${offer.amount} for ${offer.product.title}`
+      : `${senderName} ${status} your offer for ${offer.product.title}`,
+    data: {
+      offerId: offer.id,
+      conversationId: offer.conversationId,
+      productId: offer.productId,
+      amount: offer.amount,
+      status: offer.status
+    }
+  });
+};
+
+// Expire pending offers that are past their expiry
+const expireOffers = async () => {
+  const now = new Date();
+
+  const expiredOffers = await prisma.offer.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    select: { id: true }
+  });
+
+  if (expiredOffers.length > 0) {
+    const offerIds = expiredOffers.map(offer => offer.id);
+
+    await prisma.offer.updateMany({
+      where: { id: { in: offerIds }, status: 'PENDING' },
+      data: { status: 'EXPIRED' }
+    });
+
+    const offers = await prisma.offer.findMany({
+      where: { id: { in: offerIds } },
+      include: offerInclude
+    });
+    offers.forEach(offer => emitOfferEvent('offer-updated', offer));
+  }
+};
+
+// The other participant of a conversation the user belongs to, or null when
+// it isn't theirs or either of them has blocked the other
+const getUnblockedRecipientId = async (conversationId, userId) => {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      OR: [
+        { user1Id: userId },
+        { user2Id: userId }
+      ]
+    },
+    select: { user1Id: true, user2Id: true }
+  });
+  if (!conversation) return null;
+
+  const otherUserId = conversation.user1Id === userId ? conversation.user2Id : conversation.user1Id;
+  return (await isBlockedBetween(userId, otherUserId)) ? null : otherUserId;
+};
+
+// Thrown inside an offer response transaction to roll it back; the message
+// is sent to the user
+class OfferResponseError extends Error {}
+
+// Move an offer that is still pending and unexpired to a response status.
+// The check is part of the update, so of two responses racing each other or
+// expireOffers only one wins. db is the Prisma client or a transaction.
+// Returns whether this call moved it.
+const claimPendingOffer = async (db, offerId, data) => {
+  const { count } = await db.offer.updateMany({
+    where: { id: offerId, status: 'PENDING', expiresAt: { gt: new Date() } },
+    data
+  });
+  return count > 0;
+};
+
+const OFFER_NOT_PENDING_ERROR = 'This offer is no longer pending';
+
+// Load a pending offer the user is allowed to respond to: they must be in
+// the conversation and not the one who proposed it
+const getOfferForResponse = async (offerId, userId) => {
+  const offer = await prisma.offer.findFirst({
+    where: {
+      id: offerId,
+      OR: [
+        { buyerId: userId },
+        { sellerId: userId }
+      ]
+    },
+    include: offerInclude
+  });
+
+  if (!offer) {
+    return { error: 'Offer not found' };
+  }
+  if (await isBlockedBetween(offer.buyerId, offer.sellerId)) {
+    return { error: BLOCKED_ERROR };
+  }
+  if (offer.proposedById === userId) {
+    return { error: 'You cannot respond to your own offer' };
+  }
+  if (offer.status === 'PENDING' && offer.expiresAt <= new Date()) {
+    return { error: 'This offer has expired' };
+  }
+  if (offer.status !== 'PENDING') {
+    return { error: `This offer has already been ${offer.status.toLowerCase()}` };
+  }
+
+  return { offer };
+};
 
 // Initialize connections
 const initializeService = async () => {
   try {
     await connectDatabase();
     await connectRedis();
+
+    // Share rooms and broadcasts between messaging instances
+    const pubClient = redis.duplicate();
+    const subClient = redis.duplicate();
+    pubClient.on('error', (err) => console.error('Redis adapter pub error:', err));
+    subClient.on('error', (err) => console.error('Redis adapter sub error:', err));
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    io.adapter(createAdapter(pubClient, subClient));
+
+    // Keep this instance's socket connections counting towards presence
+    await startPresenceHeartbeat();
+
+    // Expire stale offers every minute, on one instance only so each change
+    // is emitted once
+    setInterval(() => {
+      runExclusively('expire-offers', 55 * 1000, expireOffers)
+        .catch(error => console.error('Expire offers error:', error));
+    }, 60 * 1000);
+
+    // Push notifications created by other services to connected users.
+    // Every instance receives the event, so each only emits to its own
+    // sockets.
+    await subscribe(CHANNELS.NOTIFICATIONS, ({ payload: notification }) => {
+      io.local.to(`user:${notification.userId}`).emit('notification', notification);
+    });
+
+    // A suspended user's open sockets are closed so they can't keep sending
+    // messages and offers; reconnecting is refused by the socket auth
+    await subscribe(CHANNELS.USERS, ({ type, payload }) => {
+      if (type === USER_EVENTS.SUSPENDED) {
+        io.local.in(`user:${payload.userId}`).disconnectSockets(true);
+      }
+    });
+
     console.log('Messaging service initialized successfully');
   } catch (error) {
     console.error('Failed to initialize messaging service:', error);
@@ -52,7 +659,7 @@ const authenticateSocket = async (socket, next) => {
       return next(new Error('Token is invalid'));
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const decoded = verifyAccessToken(token);
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
       select: {
@@ -60,6 +667,7 @@ const authenticateSocket = async (socket, next) => {
         firstName: true,
         lastName: true,
         email: true,
+        isSuspended: true
       }
     });
 
@@ -67,6 +675,10 @@ const authenticateSocket = async (socket, next) => {
       return next(new Error('User not found'));
     }
 
+    if (user.isSuspended) {
+      return next(new Error('Account suspended'));
+    }
+
     socket.userId = user.id;
     socket.user = user;
     next();
@@ -81,12 +693,58 @@ io.use(authenticateSocket);
 io.on('connection', (socket) => {
   console.log(`User ${socket.user.firstName} connected`);
   
-  // Store user connection
-  activeUsers.set(socket.userId, socket.id);
-  
   // Join user to their personal room
   socket.join(`user:${socket.userId}`);
 
+  // Count the connection; the first one brings the user online
+  userConnected(socket.userId)
+    .then((connections) => {
+      if (connections === 1) {
+        emitPresence(socket.userId, { isOnline: true, lastSeenAt: null });
+      }
+    })
+    .catch((error) => {
+      console.error('Presence connect error:', error);
+    });
+
+  // Tell the client how many notifications arrived while it was offline
+  prisma.notification.count({
+    where: { userId: socket.userId, isRead: false }
+  })
+    .then((unreadCount) => {
+      socket.emit('notification-count', { unreadCount });
+    })
+    .catch((error) => {
+      console.error('Load notifications error:', error);
+    });
+
+  // And how many messages are waiting for it
+  getMessageUnreadCount(socket.userId)
+    .then((counts) => {
+      socket.emit('message-unread-count', counts);
+    })
+    .catch((error) => {
+      console.error('Load message unread count error:', error);
+    });
+
+  // Handle notification read status
+  socket.on('mark-notifications-read', async (data) => {
+    try {
+      const { notificationIds } = data;
+
+      await prisma.notification.updateMany({
+        where: {
+          id: { in: notificationIds },
+          userId: socket.userId
+        },
+        data: { isRead: true }
+      });
+      await emitNotificationCount(socket.userId);
+    } catch (error) {
+      console.error('Mark notifications read error:', error);
+    }
+  });
+
   // Handle joining conversation rooms
   socket.on('join-conversation', async (conversationId) => {
     try {
@@ -118,51 +776,90 @@ io.on('connection', (socket) => {
     socket.emit('left-conversation', conversationId);
   });
 
-  // Handle typing indicators
-  socket.on('typing', (data) => {
-    socket.to(`conversation:${data.conversationId}`).emit('user-typing', {
+  // Handle typing indicators, only relayed within joined conversations
+  // between users who haven't blocked each other
+  socket.on('typing', async (data) => {
+    const room = `conversation:${data?.conversationId}`;
+    if (!socket.rooms.has(room)) return;
+    if (!(await getUnblockedRecipientId(data.conversationId, socket.userId))) return;
+
+    socket.to(room).emit('user-typing', {
       userId: socket.userId,
       userName: socket.user.firstName,
       conversationId: data.conversationId
     });
   });
 
-  socket.on('stop-typing', (data) => {
-    socket.to(`conversation:${data.conversationId}`).emit('user-stopped-typing', {
+  socket.on('stop-typing', async (data) => {
+    const room = `conversation:${data?.conversationId}`;
+    if (!socket.rooms.has(room)) return;
+    if (!(await getUnblockedRecipientId(data.conversationId, socket.userId))) return;
+
+    socket.to(room).emit('user-stopped-typing', {
       userId: socket.userId,
       conversationId: data.conversationId
     });
   });
 
-  // Handle new messages
-  socket.on('send-message', async (data) => {
+  // Handle new messages. Clients pass an acknowledgement callback to learn
+  // whether the message was stored; without one, failures arrive as 'error'
+  socket.on('send-message', async (data, ack) => {
+    const fail = (error) => {
+      if (typeof ack === 'function') ack({ success: false, error });
+      else socket.emit('error', error);
+    };
+
+    try {
+      const { error: validationError, value } = messageSchemas.sendToConversation.validate(data || {});
+      if (validationError) {
+        fail(validationError.details[0].message);
+        return;
+      }
+
+      if (!(await isUserVerified(socket.userId))) {
+        fail('Please verify your email address first');
+        return;
+      }
+
+      const { message, error } = await sendConversationMessage(socket.user, value);
+      if (error) {
+        fail(error);
+        return;
+      }
+
+      if (typeof ack === 'function') ack({ success: true, message });
+
+    } catch (error) {
+      console.error('Send message error:', error);
+      fail('Failed to send message');
+    }
+  });
+
+  // Handle offers
+  socket.on('make-offer', async (data) => {
     try {
-      const { conversationId, content, productId } = data;
+      const { error, value } = messageSchemas.makeOffer.validate(data || {});
+      if (error) {
+        socket.emit('error', error.details[0].message);
+        return;
+      }
 
-      // Validate message content
-      if (!content || content.trim().length === 0) {
-        socket.emit('error', 'Message content cannot be empty');
+      if (!(await isUserVerified(socket.userId))) {
+        socket.emit('error', 'Please verify your email address first');
         return;
       }
 
-      // Get conversation and verify user is part of it
       const conversation = await prisma.conversation.findFirst({
         where: {
-          id: conversationId,
+          id: value.conversationId,
           OR: [
             { user1Id: socket.userId },
             { user2Id: socket.userId }
           ]
         },
         include: {
-          user1: {
-            select: { id: true, firstName: true, lastName: true }
-          },
-          user2: {
-            select: { id: true, firstName: true, lastName: true }
-          },
           product: {
-            select: { id: true, title: true }
+            select: { id: true, sellerId: true, status: true }
           }
         }
       });
@@ -172,101 +869,347 @@ io.on('connection', (socket) => {
         return;
       }
 
-      const receiverId = conversation.user1Id === socket.userId ? 
-        conversation.user2Id : conversation.user1Id;
+      const { product } = conversation;
+
+      const otherUserId = conversation.user1Id === socket.userId ? conversation.user2Id : conversation.user1Id;
+      if (await isBlockedBetween(socket.userId, otherUserId)) {
+        socket.emit('error', BLOCKED_ERROR);
+        return;
+      }
+
+      if (product.sellerId === socket.userId) {
+        socket.emit('error', 'Only the buyer can make an offer; reply with a counter offer instead');
+        return;
+      }
+
+      if (![conversation.user1Id, conversation.user2Id].includes(product.sellerId)) {
+        socket.emit('error', 'Offers can only be made to the seller');
+        return;
+      }
+
+      if (product.status !== PRODUCT_STATUS.ACTIVE) {
+        socket.emit('error', 'This product is no longer available');
+        return;
+      }
+
+      const pendingOffer = await prisma.offer.findFirst({
+        where: {
+          conversationId: conversation.id,
+          status: 'PENDING',
+          expiresAt: { gt: new Date() }
+        }
+      });
+
+      if (pendingOffer) {
+        socket.emit('error', 'There is already a pending offer in this conversation');
+        return;
+      }
 
-      // Create message
-      const message = await prisma.message.create({
+      const offer = await prisma.offer.create({
         data: {
-          senderId: socket.userId,
-          receiverId,
-          productId: conversation.productId,
-          content: content.trim()
+          conversationId: conversation.id,
+          productId: product.id,
+          buyerId: socket.userId,
+          sellerId: product.sellerId,
+          proposedById: socket.userId,
+          amount: value.amount,
+          message: value.message || null,
+          expiresAt: new Date(Date.now() + OFFER_TTL)
         },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-            }
-          },
-          receiver: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true
-            }
+        include: offerInclude
+      });
+
+      await prisma.conversation.update({
+        where: { id: conversation.id },
+        data: { lastMessageAt: new Date() }
+      });
+      await restoreDeletedConversation(conversation.id);
+
+      emitOfferEvent('new-offer', offer);
+      await notifyOfferRecipient(offer, socket.user.firstName);
+
+    } catch (error) {
+      console.error('Make offer error:', error);
+      socket.emit('error', 'Failed to make offer');
+    }
+  });
+
+  socket.on('counter-offer', async (data) => {
+    try {
+      const { error, value } = messageSchemas.counterOffer.validate(data || {});
+      if (error) {
+        socket.emit('error', error.details[0].message);
+        return;
+      }
+
+      if (!(await isUserVerified(socket.userId))) {
+        socket.emit('error', 'Please verify your email address first');
+        return;
+      }
+
+      const { offer: previousOffer, error: offerError } = await getOfferForResponse(value.offerId, socket.userId);
+      if (offerError) {
+        socket.emit('error', offerError);
+        return;
+      }
+
+      if (previousOffer.product.status !== PRODUCT_STATUS.ACTIVE) {
+        socket.emit('error', 'This product is no longer available');
+        return;
+      }
+
+      const [counteredOffer, counterOffer] = await prisma.$transaction(async (tx) => {
+        const claimed = await claimPendingOffer(tx, previousOffer.id, {
+          status: 'COUNTERED',
+          respondedAt: new Date()
+        });
+        if (!claimed) {
+          throw new OfferResponseError(OFFER_NOT_PENDING_ERROR);
+        }
+
+        const created = await tx.offer.create({
+          data: {
+            conversationId: previousOffer.conversationId,
+            productId: previousOffer.productId,
+            buyerId: previousOffer.buyerId,
+            sellerId: previousOffer.sellerId,
+            proposedById: socket.userId,
+            amount: value.amount,
+            message: value.message || null,
+            counterOfId: previousOffer.id,
+            expiresAt: new Date(Date.now() + OFFER_TTL)
           },
-          product: {
-            select: {
-              id: true,
-              title: true
-            }
+          include: offerInclude
+        });
+        await tx.conversation.update({
+          where: { id: previousOffer.conversationId },
+          data: { lastMessageAt: new Date() }
+        });
+        await restoreDeletedConversation(previousOffer.conversationId, tx);
+
+        const countered = await tx.offer.findUnique({
+          where: { id: previousOffer.id },
+          include: offerInclude
+        });
+        return [countered, created];
+      });
+
+      emitOfferEvent('offer-updated', counteredOffer);
+      emitOfferEvent('new-offer', counterOffer);
+      await notifyOfferRecipient(counterOffer, socket.user.firstName);
+
+    } catch (error) {
+      if (error instanceof OfferResponseError) {
+        socket.emit('error', error.message);
+        return;
+      }
+      console.error('Counter offer error:', error);
+      socket.emit('error', 'Failed to counter offer');
+    }
+  });
+
+  socket.on('accept-offer', async (data) => {
+    try {
+      const { error, value } = messageSchemas.respondToOffer.validate(data || {});
+      if (error) {
+        socket.emit('error', error.details[0].message);
+        return;
+      }
+
+      const { offer, error: offerError } = await getOfferForResponse(value.offerId, socket.userId);
+      if (offerError) {
+        socket.emit('error', offerError);
+        return;
+      }
+
+      if (offer.product.status !== PRODUCT_STATUS.ACTIVE) {
+        socket.emit('error', 'This product is no longer available');
+        return;
+      }
+
+      // Only the seller can take the listing off the market
+      const reserve = value.reserve && socket.userId === offer.sellerId;
+
+      // The listing is reserved only while still active, so accepting two
+      // buyers' offers at once can't reserve it twice
+      await prisma.$transaction(async (tx) => {
+        const claimed = await claimPendingOffer(tx, offer.id, {
+          status: 'ACCEPTED',
+          respondedAt: new Date()
+        });
+        if (!claimed) {
+          throw new OfferResponseError(OFFER_NOT_PENDING_ERROR);
+        }
+
+        if (reserve) {
+          const { count } = await tx.product.updateMany({
+            where: { id: offer.productId, status: PRODUCT_STATUS.ACTIVE },
+            data: getStatusChangeData(PRODUCT_STATUS.RESERVED, { reservedForId: offer.buyerId })
+          });
+          if (count === 0) {
+            throw new OfferResponseError('This product is no longer available');
           }
         }
       });
 
-      // Update conversation last message time
-      await prisma.conversation.update({
-        where: { id: conversationId },
-        data: { lastMessageAt: new Date() }
+      if (reserve) {
+        await redisUtils.del(`product:${offer.productId}`);
+        await redisUtils.del('products:recent');
+        await redisUtils.del(`products:category:${offer.product.category}`);
+        await invalidateSearchCache();
+      }
+
+      const acceptedOffer = await prisma.offer.findUnique({
+        where: { id: offer.id },
+        include: offerInclude
       });
 
-      // Emit message to conversation room
-      io.to(`conversation:${conversationId}`).emit('new-message', message);
+      emitOfferEvent('offer-updated', acceptedOffer);
+      await notifyOfferRecipient(acceptedOffer, socket.user.firstName);
 
-      // Send notification to receiver if they're online
-      io.to(`user:${receiverId}`).emit('message-notification', {
-        messageId: message.id,
-        senderId: socket.userId,
-        senderName: socket.user.firstName,
-        content: message.content,
-        conversationId,
-        productTitle: conversation.product.title
+    } catch (error) {
+      if (error instanceof OfferResponseError) {
+        socket.emit('error', error.message);
+        return;
+      }
+      console.error('Accept offer error:', error);
+      socket.emit('error', 'Failed to accept offer');
+    }
+  });
+
+  socket.on('reject-offer', async (data) => {
+    try {
+      const { error, value } = messageSchemas.respondToOffer.validate(data || {});
+      if (error) {
+        socket.emit('error', error.details[0].message);
+        return;
+      }
+
+      const { offer, error: offerError } = await getOfferForResponse(value.offerId, socket.userId);
+      if (offerError) {
+        socket.emit('error', offerError);
+        return;
+      }
+
+      const claimed = await claimPendingOffer(prisma, offer.id, {
+        status: 'REJECTED',
+        respondedAt: new Date()
+      });
+      if (!claimed) {
+        socket.emit('error', OFFER_NOT_PENDING_ERROR);
+        return;
+      }
+
+      const rejectedOffer = await prisma.offer.findUnique({
+        where: { id: offer.id },
+        include: offerInclude
       });
 
+      emitOfferEvent('offer-updated', rejectedOffer);
+      await notifyOfferRecipient(rejectedOffer, socket.user.firstName);
+
     } catch (error) {
-      console.error('Send message error:', error);
-      socket.emit('error', 'Failed to send message');
+      console.error('Reject offer error:', error);
+      socket.emit('error', 'Failed to reject offer');
     }
   });
 
   // Handle message read status
+  // Read receipts: pass conversationId to mark everything the other user
+  // sent as read, or messageId for a single message
   socket.on('mark-read', async (data) => {
     try {
-      const { messageId } = data;
+      const { conversationId, messageId } = data || {};
+
+      if (conversationId) {
+        const conversation = await prisma.conversation.findFirst({
+          where: {
+            id: conversationId,
+            OR: [
+              { user1Id: socket.userId },
+              { user2Id: socket.userId }
+            ]
+          }
+        });
+        if (conversation) {
+          await markConversationRead(conversation, socket.userId);
+        }
+        return;
+      }
 
-      await prisma.message.update({
+      const readAt = new Date();
+      const message = await prisma.message.update({
         where: {
           id: messageId,
           receiverId: socket.userId
         },
-        data: { isRead: true }
+        data: { isRead: true, readAt },
+        select: { id: true, senderId: true, conversationId: true, createdAt: true }
       });
 
+      if (await advanceReadPointer(message.conversationId, socket.userId, message.createdAt)) {
+        await emitMessageUnreadCount(socket.userId);
+      }
+
       // Notify sender that message was read
-      const message = await prisma.message.findUnique({
-        where: { id: messageId },
-        select: { senderId: true }
+      io.to(`user:${message.senderId}`).emit('message-read', {
+        messageId: message.id,
+        readBy: socket.userId,
+        readAt
       });
 
-      if (message) {
-        io.to(`user:${message.senderId}`).emit('message-read', {
-          messageId,
-          readBy: socket.userId
-        });
-      }
-
     } catch (error) {
       console.error('Mark read error:', error);
     }
   });
 
+  // Watch conversation partners' presence: joins their presence rooms and
+  // acknowledges with their current presence. Users the socket doesn't
+  // share a conversation with, or that are blocked either way, are skipped.
+  socket.on('watch-presence', async (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    try {
+      const requestedIds = Array.isArray(data?.userIds)
+        ? [...new Set(data.userIds.filter(userId => typeof userId === 'string'))].slice(0, MAX_PRESENCE_WATCH)
+        : [];
+
+      const [conversations, blockedUserIds] = await Promise.all([
+        prisma.conversation.findMany({
+          where: {
+            OR: [
+              { user1Id: socket.userId, user2Id: { in: requestedIds } },
+              { user2Id: socket.userId, user1Id: { in: requestedIds } }
+            ]
+          },
+          select: { user1Id: true, user2Id: true }
+        }),
+        getBlockedUserIds(socket.userId, { includeBlockers: true })
+      ]);
+
+      const userIds = [...new Set(conversations.map(conversation =>
+        conversation.user1Id === socket.userId ? conversation.user2Id : conversation.user1Id
+      ))].filter(userId => !blockedUserIds.includes(userId));
+
+      userIds.forEach(userId => socket.join(`presence:${userId}`));
+
+      respond({ success: true, presence: await getPresence(userIds) });
+    } catch (error) {
+      console.error('Watch presence error:', error);
+      respond({ success: false, error: 'Failed to load presence' });
+    }
+  });
+
   // Handle disconnect
-  socket.on('disconnect', () => {
+  socket.on('disconnect', async () => {
     console.log(`User ${socket.user.firstName} disconnected`);
-    activeUsers.delete(socket.userId);
+    try {
+      const presence = await userDisconnected(socket.userId);
+      if (!presence.isOnline) {
+        emitPresence(socket.userId, presence);
+      }
+    } catch (error) {
+      console.error('Presence disconnect error:', error);
+    }
   });
 });
 
@@ -279,130 +1222,326 @@ app.get('/health', (req, res) => {
     service: 'messaging-service',
     status: 'running',
     timestamp: new Date().toISOString(),
-    activeConnections: activeUsers.size
+    activeConnections: io.engine.clientsCount
   });
 });
 
-// Get user conversations
-app.get('/messages/conversations', verifyToken, async (req, res) => {
+// Which of the user's conversations each list filter shows
+const conversationFilters = (userId) => ({
+  inbox: { states: { none: { userId, OR: [{ isArchived: true }, { isDeleted: true }] } } },
+  archived: { states: { some: { userId, isArchived: true, isDeleted: false } } },
+  muted: { states: { some: { userId, isMuted: true, isDeleted: false } } },
+  all: { states: { none: { userId, isDeleted: true } } }
+});
+
+// Get user conversations. Pinned conversations come first on the first
+// page; the rest are paged by most recent activity.
+app.get('/messages/conversations', verifyToken, validate(messageSchemas.listConversations, 'query'), async (req, res) => {
   try {
-    const { page = 1, limit = 20 } = req.query;
+    const { filter, page, limit } = req.query;
     const skip = (page - 1) * limit;
-    const take = parseInt(limit);
 
-    const conversations = await prisma.conversation.findMany({
+    // Conversations with users on either side of a block are hidden
+    const blockedUserIds = await getBlockedUserIds(req.userId, { includeBlockers: true });
+
+    const baseWhere = {
+      AND: [
+        {
+          OR: [
+            { user1Id: req.userId, user2Id: { notIn: blockedUserIds } },
+            { user2Id: req.userId, user1Id: { notIn: blockedUserIds } }
+          ]
+        },
+        conversationFilters(req.userId)[filter]
+      ]
+    };
+
+    const include = {
+      user1: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        }
+      },
+      user2: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        }
+      },
+      product: {
+        select: {
+          id: true,
+          title: true,
+          price: true,
+          images: true,
+          status: true
+        }
+      },
+      states: {
+        where: { userId: req.userId }
+      }
+    };
+
+    const isPinned = { states: { some: { userId: req.userId, pinnedAt: { not: null } } } };
+
+    const [pinned, conversations] = await Promise.all([
+      page === 1
+        ? prisma.conversation.findMany({
+          where: { AND: [baseWhere, isPinned] },
+          include
+        })
+        : [],
+      prisma.conversation.findMany({
+        where: { AND: [baseWhere, { NOT: isPinned }] },
+        skip,
+        take: limit,
+        orderBy: { lastMessageAt: 'desc' },
+        include
+      })
+    ]);
+
+    pinned.sort((a, b) => b.states[0].pinnedAt - a.states[0].pinnedAt);
+
+    const listed = [...pinned, ...conversations];
+
+    // Last message ids and unread counts come from one aggregate query, then
+    // the last messages are loaded together
+    const summaries = await getConversationSummaries(
+      listed.map(conversation => conversation.id),
+      req.userId
+    );
+
+    const lastMessages = await prisma.message.findMany({
+      where: {
+        id: {
+          in: Object.values(summaries)
+            .map(summary => summary.lastMessageId)
+            .filter(Boolean)
+        }
+      },
+      include: {
+        sender: {
+          select: { id: true, firstName: true, lastName: true }
+        },
+        attachments: {
+          select: { type: true }
+        }
+      }
+    });
+    const lastMessageById = new Map(lastMessages.map(message => [message.id, message]));
+
+    const conversationsWithLastMessage = listed.map(({ states, ...conversation }) => {
+      const summary = summaries[conversation.id];
+
+      const otherUser = conversation.user1Id === req.userId ? 
+        conversation.user2 : conversation.user1;
+
+      return {
+        ...conversation,
+        otherUser,
+        lastMessage: lastMessageById.get(summary.lastMessageId) || null,
+        unreadCount: summary.unreadCount,
+        state: describeConversationState(states[0])
+      };
+    });
+
+    const presence = await getPresence(
+      conversationsWithLastMessage.map(conversation => conversation.otherUser.id)
+    );
+
+    res.json({
+      success: true,
+      message: 'Conversations retrieved successfully',
+      data: {
+        conversations: conversationsWithLastMessage.map(conversation => ({
+          ...conversation,
+          otherUser: {
+            ...conversation.otherUser,
+            presence: presence[conversation.otherUser.id]
+          }
+        })),
+        pagination: {
+          page,
+          limit,
+          hasMore: conversations.length === limit
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve conversations',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Unread messages for the header badge
+app.get('/messages/unread-count', verifyToken, async (req, res) => {
+  try {
+    const counts = await getMessageUnreadCount(req.userId);
+
+    res.json({
+      success: true,
+      message: 'Unread count retrieved successfully',
+      data: counts
+    });
+
+  } catch (error) {
+    console.error('Get message unread count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve unread count',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Archive, mute or pin a conversation for the current user
+app.patch('/messages/conversation/:conversationId/state', verifyToken, validate(messageSchemas.getConversation, 'params'), validate(messageSchemas.updateConversationState), async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const { archived, muted, pinned } = req.body;
+
+    const conversation = await prisma.conversation.findFirst({
       where: {
+        id: conversationId,
         OR: [
           { user1Id: req.userId },
           { user2Id: req.userId }
         ]
       },
-      skip,
-      take,
-      orderBy: { lastMessageAt: 'desc' },
       include: {
-        user1: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          }
-        },
-        user2: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          }
-        },
-        product: {
-          select: {
-            id: true,
-            title: true,
-            price: true,
-            images: true,
-            isAvailable: true
-          }
+        states: {
+          where: { userId: req.userId }
         }
       }
     });
 
-    // Get last message for each conversation
-    const conversationsWithLastMessage = await Promise.all(
-      conversations.map(async (conversation) => {
-        const lastMessage = await prisma.message.findFirst({
-          where: {
-            OR: [
-              {
-                senderId: conversation.user1Id,
-                receiverId: conversation.user2Id,
-                productId: conversation.productId
-              },
-              {
-                senderId: conversation.user2Id,
-                receiverId: conversation.user1Id,
-                productId: conversation.productId
-              }
-            ]
-          },
-          orderBy: { createdAt: 'desc' },
-          include: {
-            sender: {
-              select: { id: true, firstName: true, lastName: true }
-            }
-          }
-        });
-
-        const unreadCount = await prisma.message.count({
-          where: {
-            receiverId: req.userId,
-            productId: conversation.productId,
-            isRead: false
-          }
-        });
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
+    }
+
+    const [current] = conversation.states;
+    // Archiving takes a conversation out of the pinned list
+    const pin = archived ? false : pinned;
+
+    if (pin && !current?.pinnedAt) {
+      const pinnedCount = await prisma.conversationState.count({
+        where: { userId: req.userId, pinnedAt: { not: null }, isDeleted: false }
+      });
+
+      if (pinnedCount >= MAX_PINNED_CONVERSATIONS) {
+        return res.status(400).json({
+          success: false,
+          message: `You can pin up to ${MAX_PINNED_CONVERSATIONS} conversations`
+        });
+      }
+    }
+
+    const data = {
+      ...(archived !== undefined && { isArchived: archived }),
+      ...(muted !== undefined && { isMuted: muted }),
+      ...(pin !== undefined && { pinnedAt: pin ? current?.pinnedAt || new Date() : null })
+    };
+
+    const state = await prisma.conversationState.upsert({
+      where: { conversationId_userId: { conversationId, userId: req.userId } },
+      create: { conversationId, userId: req.userId, ...data },
+      update: data
+    });
+
+    // Muted conversations don't count towards the unread badge
+    if (muted !== undefined) {
+      await emitMessageUnreadCount(req.userId);
+    }
+
+    res.json({
+      success: true,
+      message: 'Conversation updated successfully',
+      data: { state: describeConversationState(state) }
+    });
+
+  } catch (error) {
+    console.error('Update conversation state error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update conversation',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Delete a conversation for the current user only. It leaves their list
+// until a new message or offer arrives, and what was sent before stays
+// hidden from them.
+app.delete('/messages/conversation/:conversationId', verifyToken, validate(messageSchemas.getConversation, 'params'), async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        OR: [
+          { user1Id: req.userId },
+          { user2Id: req.userId }
+        ]
+      },
+      select: { id: true }
+    });
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
+    }
 
-        const otherUser = conversation.user1Id === req.userId ? 
-          conversation.user2 : conversation.user1;
+    const data = {
+      isDeleted: true,
+      hiddenUntil: new Date(),
+      isArchived: false,
+      pinnedAt: null
+    };
+
+    await prisma.conversationState.upsert({
+      where: { conversationId_userId: { conversationId, userId: req.userId } },
+      create: { conversationId, userId: req.userId, ...data },
+      update: data
+    });
 
-        return {
-          ...conversation,
-          otherUser,
-          lastMessage,
-          unreadCount
-        };
-      })
-    );
+    await clearMessageNotifications(conversationId, req.userId);
+    await emitMessageUnreadCount(req.userId);
 
     res.json({
       success: true,
-      message: 'Conversations retrieved successfully',
-      data: {
-        conversations: conversationsWithLastMessage,
-        pagination: {
-          page: parseInt(page),
-          limit: take,
-          hasMore: conversations.length === take
-        }
-      }
+      message: 'Conversation deleted'
     });
 
   } catch (error) {
-    console.error('Get conversations error:', error);
+    console.error('Delete conversation error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve conversations',
+      message: 'Failed to delete conversation',
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
 });
 
 // Get conversation messages
-app.get('/messages/conversation/:conversationId', verifyToken, validate(messageSchemas.getConversation, 'params'), async (req, res) => {
+app.get('/messages/conversation/:conversationId', verifyToken, validate(messageSchemas.getConversation, 'params'), validate(messageSchemas.conversationHistory, 'query'), async (req, res) => {
   try {
     const { conversationId } = req.params;
-    const { page = 1, limit = 50 } = req.query;
-    const skip = (page - 1) * limit;
-    const take = parseInt(limit);
+    const { before, after, limit } = req.query;
+    const cursorId = before || after;
 
     // Verify user is part of conversation
     const conversation = await prisma.conversation.findFirst({
@@ -434,8 +1573,12 @@ app.get('/messages/conversation/:conversationId', verifyToken, validate(messageS
             title: true,
             price: true,
             images: true,
-            isAvailable: true
+            status: true,
+            sellerId: true
           }
+        },
+        states: {
+          where: { userId: req.userId }
         }
       }
     });
@@ -447,25 +1590,30 @@ app.get('/messages/conversation/:conversationId', verifyToken, validate(messageS
       });
     }
 
-    // Get messages
-    const messages = await prisma.message.findMany({
-      where: {
-        OR: [
-          {
-            senderId: conversation.user1Id,
-            receiverId: conversation.user2Id,
-            productId: conversation.productId
-          },
-          {
-            senderId: conversation.user2Id,
-            receiverId: conversation.user1Id,
-            productId: conversation.productId
-          }
-        ]
-      },
-      skip,
-      take,
-      orderBy: { createdAt: 'desc' },
+    const { states: [state], ...details } = conversation;
+
+    if (cursorId) {
+      const cursorMessage = await prisma.message.findFirst({
+        where: { id: cursorId, conversationId },
+        select: { id: true }
+      });
+
+      if (!cursorMessage) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cursor message not found in this conversation'
+        });
+      }
+    }
+
+    // Walk away from the cursor by (createdAt, id), newest first unless
+    // paging forward; one extra row tells whether there is more
+    const direction = after ? 'asc' : 'desc';
+    const page = await prisma.message.findMany({
+      where: { conversationId, ...visibleAfter(state) },
+      ...(cursorId && { cursor: { id: cursorId }, skip: 1 }),
+      take: limit + 1,
+      orderBy: [{ createdAt: direction }, { id: direction }],
       include: {
         sender: {
           select: {
@@ -473,36 +1621,44 @@ app.get('/messages/conversation/:conversationId', verifyToken, validate(messageS
             firstName: true,
             lastName: true,
           }
-        }
+        },
+        attachments: attachmentInclude
       }
     });
 
-    // Mark messages as read
-    await prisma.message.updateMany({
-      where: {
-        receiverId: req.userId,
-        productId: conversation.productId,
-        isRead: false
-      },
-      data: { isRead: true }
-    });
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit);
+    if (!after) messages.reverse();
 
-    const otherUser = conversation.user1Id === req.userId ? 
-      conversation.user2 : conversation.user1;
+    // Mark messages as read unless the user is only scrolling back
+    if (!before) {
+      await markConversationRead(conversation, req.userId);
+    }
+
+    const otherUser = details.user1Id === req.userId ? 
+      details.user2 : details.user1;
+
+    // Blocked users don't see each other's presence
+    const presence = await isBlockedBetween(req.userId, otherUser.id)
+      ? null
+      : (await getPresence([otherUser.id]))[otherUser.id];
 
     res.json({
       success: true,
       message: 'Messages retrieved successfully',
       data: {
         conversation: {
-          ...conversation,
-          otherUser
+          ...details,
+          otherUser: { ...otherUser, presence },
+          state: describeConversationState(state)
         },
-        messages: messages.reverse(),
+        messages,
         pagination: {
-          page: parseInt(page),
-          limit: take,
-          hasMore: messages.length === take
+          limit,
+          hasOlder: after ? true : hasMore,
+          hasNewer: after ? hasMore : Boolean(before),
+          before: messages[0]?.id || null,
+          after: messages[messages.length - 1]?.id || null
         }
       }
     });
@@ -517,8 +1673,58 @@ app.get('/messages/conversation/:conversationId', verifyToken, validate(messageS
   }
 });
 
+// Get offers in a conversation
+app.get('/messages/conversation/:conversationId/offers', verifyToken, async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        OR: [
+          { user1Id: req.userId },
+          { user2Id: req.userId }
+        ]
+      },
+      select: {
+        id: true,
+        states: {
+          where: { userId: req.userId }
+        }
+      }
+    });
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
+    }
+
+    const offers = await prisma.offer.findMany({
+      where: { conversationId, ...visibleAfter(conversation.states[0]) },
+      orderBy: { createdAt: 'asc' },
+      include: offerInclude
+    });
+
+    res.json({
+      success: true,
+      message: 'Offers retrieved successfully',
+      data: { offers }
+    });
+
+  } catch (error) {
+    console.error('Get offers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve offers',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // Send message (REST API endpoint)
-app.post('/messages/conversation', verifyToken, async (req, res) => {
+app.post('/messages/conversation', verifyToken, requireVerified, async (req, res) => {
   try {
     const { error, value } = messageSchemas.createConversation.validate(req.body);
     if (error) {
@@ -556,6 +1762,13 @@ app.post('/messages/conversation', verifyToken, async (req, res) => {
       });
     }
 
+    if (await isBlockedBetween(req.userId, receiverId)) {
+      return res.status(403).json({
+        success: false,
+        message: BLOCKED_ERROR
+      });
+    }
+
     // Check if conversation already exists
     const existingConversation = await prisma.conversation.findFirst({
       where: {
@@ -624,16 +1837,259 @@ app.post('/messages/conversation', verifyToken, async (req, res) => {
   }
 });
 
-// Get online users
-app.get('/online', verifyToken, (req, res) => {
-  const onlineUsers = Array.from(activeUsers.keys());
-  res.json({
-    success: true,
-    data: { 
-      onlineUsers,
-      count: onlineUsers.length
+// Send message over REST, for when the socket is disconnected. Takes the
+// same body as the send-message socket event and delivers the message to
+// the conversation room the same way
+app.post('/messages/conversation/:conversationId', verifyToken, requireVerified, async (req, res) => {
+  try {
+    const { error, value } = messageSchemas.sendToConversation.validate({
+      ...req.body,
+      conversationId: req.params.conversationId
+    });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
     }
-  });
+
+    const sender = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, firstName: true }
+    });
+
+    const { message, status, error: sendError } = await sendConversationMessage(sender, value);
+    if (sendError) {
+      return res.status(status).json({
+        success: false,
+        message: sendError
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: { message }
+    });
+
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send message',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Upload images to attach to a message. Returns attachment ids to pass in
+// send-message's attachments
+app.post('/messages/attachments/images', verifyToken, requireVerified, upload.array('images', MAX_MESSAGE_ATTACHMENTS), async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No images provided'
+      });
+    }
+
+    const results = await Promise.all(req.files.map((file, index) =>
+      uploadToCloudinary(file.buffer, {
+        public_id: `message_${req.userId}_${Date.now()}_${index}`
+      })
+    ));
+
+    const attachments = await Promise.all(results.map(result =>
+      prisma.messageAttachment.create({
+        data: {
+          userId: req.userId,
+          type: 'IMAGE',
+          url: result.secure_url,
+          thumbnailUrl: getThumbnailUrl(result.public_id),
+          width: result.width,
+          height: result.height
+        }
+      })
+    ));
+
+    res.status(201).json({
+      success: true,
+      message: 'Images uploaded successfully',
+      data: { attachments }
+    });
+
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload images',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Notification inbox, newest first, paged with a before cursor
+app.get('/notifications', verifyToken, validate(notificationSchemas.list, 'query'), async (req, res) => {
+  try {
+    const { before, limit, unread } = req.query;
+    const where = {
+      userId: req.userId,
+      ...(unread && { isRead: false })
+    };
+
+    if (before) {
+      const cursorNotification = await prisma.notification.findFirst({
+        where: { id: before, userId: req.userId },
+        select: { id: true }
+      });
+
+      if (!cursorNotification) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cursor notification not found'
+        });
+      }
+    }
+
+    const [page, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        ...(before && { cursor: { id: before }, skip: 1 }),
+        take: limit + 1,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+      }),
+      prisma.notification.count({
+        where: { userId: req.userId, isRead: false }
+      })
+    ]);
+
+    const hasMore = page.length > limit;
+    const notifications = page.slice(0, limit);
+
+    res.json({
+      success: true,
+      message: 'Notifications retrieved successfully',
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          limit,
+          hasMore,
+          before: hasMore ? notifications[notifications.length - 1].id : null
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve notifications',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/notifications/unread-count', verifyToken, async (req, res) => {
+  try {
+    const unreadCount = await prisma.notification.count({
+      where: { userId: req.userId, isRead: false }
+    });
+
+    res.json({
+      success: true,
+      message: 'Unread count retrieved successfully',
+      data: { unreadCount }
+    });
+
+  } catch (error) {
+    console.error('Get unread notification count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve unread count',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.put('/notifications/read-all', verifyToken, async (req, res) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: req.userId, isRead: false },
+      data: { isRead: true }
+    });
+
+    await emitNotificationCount(req.userId);
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { count }
+    });
+
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark notifications as read',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.put('/notifications/:notificationId/read', verifyToken, async (req, res) => {
+  try {
+    const { notificationId } = req.params;
+
+    const { count } = await prisma.notification.updateMany({
+      where: { id: notificationId, userId: req.userId },
+      data: { isRead: true }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    await emitNotificationCount(req.userId);
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark notification as read',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Get online users
+app.get('/online', verifyToken, async (req, res) => {
+  try {
+    const onlineUsers = await getOnlineUserIds();
+    res.json({
+      success: true,
+      data: { 
+        onlineUsers,
+        count: onlineUsers.length
+      }
+    });
+  } catch (error) {
+    console.error('Get online users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve online users',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
 });
 
 // 404 handler
@@ -646,6 +2102,21 @@ app.use('*', (req, res) => {
 
 // Error handler
 app.use((err, req, res, next) => {
+  if (err instanceof multer.MulterError) {
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({
+        success: false,
+        message: 'File too large. Maximum size is 5MB per file'
+      });
+    }
+    if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({
+        success: false,
+        message: `Too many files. Maximum is ${MAX_MESSAGE_ATTACHMENTS} images per message`
+      });
+    }
+  }
+
   console.error('Messaging service error:', err);
   res.status(500).json({
     success: false,
@@ -5,8 +5,20 @@ const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const { prisma, connectDatabase, healthCheck } = require('../../config/database');
 const { redis, connectRedis } = require('../../config/redis');
-const { authenticateToken } = require('../../shared/middleware/auth');
+const { authenticateToken, optionalAuth, requireVerified } = require('../../shared/middleware/auth');
 const { productSchemas } = require('../../shared/utils/validation');
+const { CHANNELS, PRODUCT_EVENTS, publishEvent } = require('../../shared/utils/events');
+const { resolveCollegeFilter } = require('../../shared/utils/colleges');
+const { invalidateSearchCache } = require('../../shared/utils/searchCache');
+const { runExclusively } = require('../../shared/utils/locks');
+const {
+  PRODUCT_STATUS,
+  PRIVATE_STATUSES,
+  EDITABLE_STATUSES,
+  canTransition,
+  getListingExpiry,
+  getStatusChangeData
+} = require('../../shared/utils/productStatus');
 require('dotenv').config();
 
 const app = express();
@@ -76,8 +88,105 @@ const uploadMultipleImages = async (files) => {
   return results.map(result => result.secure_url);
 };
 
+const sellerSelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    college: true
+  }
+};
+
+// Announce a listing that just went live so saved searches can match it
+const publishProductCreated = async (product) => {
+  await publishEvent(CHANNELS.PRODUCTS, PRODUCT_EVENTS.CREATED, {
+    productId: product.id,
+    sellerId: product.sellerId,
+    title: product.title,
+    price: parseFloat(product.price),
+    category: product.category,
+    condition: product.condition
+  });
+};
+
+// Publish change events so watchers of the product can be notified
+const publishProductChanges = async (previous, updated) => {
+  const oldPrice = parseFloat(previous.price);
+  const newPrice = parseFloat(updated.price);
+
+  if (newPrice < oldPrice) {
+    await publishEvent(CHANNELS.PRODUCTS, PRODUCT_EVENTS.PRICE_DROPPED, {
+      productId: updated.id,
+      sellerId: updated.sellerId,
+      title: updated.title,
+      oldPrice,
+      newPrice
+    });
+  }
+
+  if (previous.status === PRODUCT_STATUS.DRAFT && updated.status === PRODUCT_STATUS.ACTIVE) {
+    await publishProductCreated(updated);
+  } else if (previous.status !== PRODUCT_STATUS.ACTIVE && updated.status === PRODUCT_STATUS.ACTIVE) {
+    await publishEvent(CHANNELS.PRODUCTS, PRODUCT_EVENTS.BACK_IN_STOCK, {
+      productId: updated.id,
+      sellerId: updated.sellerId,
+      title: updated.title,
+      price: newPrice
+    });
+  }
+};
+
+const clearProductCache = async (product) => {
+  await redis.del(`product:${product.id}`);
+  await redis.del('products:recent');
+  await redis.del(`products:category:${product.category}`);
+  await invalidateSearchCache();
+};
+
+// Move a product to a new status, assuming the transition was already
+// checked. A sale ({ buyerId, salePrice }) is recorded in the same database
+// transaction; caches are cleared and events published once it commits.
+const changeProductStatus = async (existingProduct, status, reservation, sale) => {
+  const { product, transaction } = await prisma.$transaction(async (tx) => {
+    const product = await tx.product.update({
+      where: { id: existingProduct.id },
+      data: getStatusChangeData(status, reservation),
+      include: { seller: sellerSelect }
+    });
+    const transaction = sale
+      ? await recordSale(tx, existingProduct, sale.buyerId, sale.salePrice)
+      : null;
+
+    return { product, transaction };
+  });
+
+  await clearProductCache(product);
+  await publishProductChanges(existingProduct, product);
+
+  return { product, transaction };
+};
+
+// Release reservations that ran out and expire listings past their end date
+const expireProducts = async () => {
+  const now = new Date();
+
+  const lapsedReservations = await prisma.product.findMany({
+    where: { status: PRODUCT_STATUS.RESERVED, reservedUntil: { lte: now } }
+  });
+  for (const product of lapsedReservations) {
+    await changeProductStatus(product, PRODUCT_STATUS.ACTIVE);
+  }
+
+  const expiredListings = await prisma.product.findMany({
+    where: { status: PRODUCT_STATUS.ACTIVE, expiresAt: { lte: now } }
+  });
+  for (const product of expiredListings) {
+    await changeProductStatus(product, PRODUCT_STATUS.EXPIRED);
+  }
+};
+
 // Product routes
-app.post('/products', authenticateToken, upload.array('images', 3), async (req, res) => {
+app.post('/products', authenticateToken, requireVerified, upload.array('images', 3), async (req, res) => {
   try {
     const { error, value } = productSchemas.create.validate(req.body);
     if (error) {
@@ -88,7 +197,7 @@ app.post('/products', authenticateToken, upload.array('images', 3), async (req,
       });
     }
 
-    const { title, description, price, condition, category } = value;
+    const { title, description, price, condition, category, status } = value;
 
     // Upload images to Cloudinary
     const imageUrls = await uploadMultipleImages(req.files);
@@ -102,27 +211,28 @@ app.post('/products', authenticateToken, upload.array('images', 3), async (req,
         price,
         condition,
         category,
-        images: imageUrls
+        images: imageUrls,
+        status,
+        expiresAt: status === PRODUCT_STATUS.ACTIVE ? getListingExpiry() : null
       },
       include: {
-        seller: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            college: true
-          }
-        }
+        seller: sellerSelect
       }
     });
 
     // Clear relevant cache entries
     await redis.del('products:recent');
     await redis.del(`products:category:${category}`);
+    await invalidateSearchCache();
+
+    // Drafts are announced once they are published
+    if (product.status === PRODUCT_STATUS.ACTIVE) {
+      await publishProductCreated(product);
+    }
 
     res.status(201).json({
       success: true,
-      message: 'Product created successfully',
+      message: status === PRODUCT_STATUS.DRAFT ? 'Draft saved successfully' : 'Product created successfully',
       data: { product }
     });
 
@@ -136,13 +246,14 @@ app.post('/products', authenticateToken, upload.array('images', 3), async (req,
   }
 });
 
-app.get('/products', async (req, res) => {
+app.get('/products', optionalAuth, async (req, res) => {
   try {
     const { 
       page = 1, 
       limit = 12, 
       category, 
       condition, 
+      college: requestedCollege,
       minPrice, 
       maxPrice, 
       search,
@@ -155,7 +266,7 @@ app.get('/products', async (req, res) => {
 
     // Build where clause
     const where = {
-      isAvailable: true
+      status: PRODUCT_STATUS.ACTIVE
     };
 
     if (category) {
@@ -179,6 +290,12 @@ app.get('/products', async (req, res) => {
       ];
     }
 
+    // Signed-in users see their own campus unless they pick another one
+    const college = await resolveCollegeFilter(requestedCollege, req.user?.userId);
+    if (college) {
+      where.seller = { college };
+    }
+
     // Build orderBy
     const orderBy = {};
     orderBy[sortBy] = sortOrder;
@@ -214,7 +331,8 @@ app.get('/products', async (req, res) => {
           limit: take,
           total: totalCount,
           pages: Math.ceil(totalCount / take)
-        }
+        },
+        college: college || 'all'
       }
     });
 
@@ -228,7 +346,7 @@ app.get('/products', async (req, res) => {
   }
 });
 
-app.get('/products/:productId', async (req, res) => {
+app.get('/products/:productId', optionalAuth, async (req, res) => {
   try {
     const { productId } = req.params;
 
@@ -247,7 +365,8 @@ app.get('/products/:productId', async (req, res) => {
       }
     });
 
-    if (!product) {
+    // Drafts and removed listings are only visible to their seller
+    if (!product || (PRIVATE_STATUSES.includes(product.status) && product.sellerId !== req.user?.userId)) {
       return res.status(404).json({
         success: false,
         message: 'Product not found'
@@ -302,6 +421,13 @@ app.put('/products/:productId', authenticateToken, upload.array('images', 3), as
       });
     }
 
+    if (!EDITABLE_STATUSES.includes(existingProduct.status)) {
+      return res.status(409).json({
+        success: false,
+        message: `A ${existingProduct.status.toLowerCase()} product can no longer be edited`
+      });
+    }
+
     // Handle image updates
     let imageUrls = existingProduct.images;
     if (req.files && req.files.length > 0) {
@@ -330,6 +456,9 @@ app.put('/products/:productId', authenticateToken, upload.array('images', 3), as
     // Clear relevant cache entries
     await redis.del(`product:${productId}`);
     await redis.del('products:recent');
+    await invalidateSearchCache();
+
+    await publishProductChanges(existingProduct, product);
 
     res.json({
       success: true,
@@ -378,6 +507,7 @@ app.delete('/products/:productId', authenticateToken, async (req, res) => {
     // Clear relevant cache entries
     await redis.del(`product:${productId}`);
     await redis.del('products:recent');
+    await invalidateSearchCache();
 
     res.json({
       success: true,
@@ -394,17 +524,35 @@ app.delete('/products/:productId', authenticateToken, async (req, res) => {
   }
 });
 
-app.get('/products/user/:userId', async (req, res) => {
+app.get('/products/user/:userId', optionalAuth, async (req, res) => {
   try {
     const { userId } = req.params;
-    const { page = 1, limit = 12, available } = req.query;
+    const { error, value } = productSchemas.listByUser.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
 
+    const { page, limit, status: statuses } = value;
     const skip = (page - 1) * limit;
-    const take = parseInt(limit);
+    const take = limit;
+
+    // Other users never see drafts or removed listings; sellers see them
+    // only when asking for them
+    const isOwner = req.user?.userId === userId;
+    const hiddenStatuses = isOwner ? [PRODUCT_STATUS.REMOVED] : PRIVATE_STATUSES;
 
     const where = { sellerId: userId };
-    if (available !== undefined) {
-      where.isAvailable = available === 'true';
+    if (statuses) {
+      where.status = {
+        in: statuses.filter(status => isOwner || !PRIVATE_STATUSES.includes(status))
+      };
+    } else {
+      where.status = { notIn: hiddenStatuses };
     }
 
     const [products, totalCount] = await Promise.all([
@@ -433,7 +581,7 @@ app.get('/products/user/:userId', async (req, res) => {
       data: {
         products,
         pagination: {
-          page: parseInt(page),
+          page,
           limit: take,
           total: totalCount,
           pages: Math.ceil(totalCount / take)
@@ -455,7 +603,7 @@ app.get('/products/categories/list', async (req, res) => {
   try {
     const categories = await prisma.product.groupBy({
       by: ['category'],
-      where: { isAvailable: true },
+      where: { status: PRODUCT_STATUS.ACTIVE },
       _count: {
         category: true
       },
@@ -487,54 +635,213 @@ app.get('/products/categories/list', async (req, res) => {
   }
 });
 
-app.patch('/products/:productId/availability', authenticateToken, async (req, res) => {
+// Load a product for a status change, making sure the caller owns it
+const findOwnProduct = async (productId, userId, res) => {
+  const product = await prisma.product.findUnique({
+    where: { id: productId }
+  });
+
+  if (!product) {
+    res.status(404).json({
+      success: false,
+      message: 'Product not found'
+    });
+    return null;
+  }
+
+  if (product.sellerId !== userId) {
+    res.status(403).json({
+      success: false,
+      message: 'You can only update your own products'
+    });
+    return null;
+  }
+
+  return product;
+};
+
+const rejectTransition = (res, from, to) => res.status(409).json({
+  success: false,
+  message: `Cannot change a ${from.toLowerCase()} listing to ${to.toLowerCase()}`
+});
+
+// Whether a user has talked to the seller about this product
+const hasConversationAbout = async (productId, sellerId, userId) => {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      productId,
+      OR: [
+        { user1Id: sellerId, user2Id: userId },
+        { user1Id: userId, user2Id: sellerId }
+      ]
+    },
+    select: { id: true }
+  });
+
+  return !!conversation;
+};
+
+// Record who bought a product, using db (the client or a transaction).
+// Without an explicit price the last accepted offer between the two is
+// used, then the listed price.
+const recordSale = async (db, product, buyerId, salePrice) => {
+  let price = salePrice;
+
+  if (price === undefined) {
+    const acceptedOffer = await db.offer.findFirst({
+      where: { productId: product.id, buyerId, status: 'ACCEPTED' },
+      orderBy: { respondedAt: 'desc' },
+      select: { amount: true }
+    });
+    price = acceptedOffer ? acceptedOffer.amount : product.price;
+  }
+
+  return db.transaction.create({
+    data: {
+      productId: product.id,
+      sellerId: product.sellerId,
+      buyerId,
+      price
+    }
+  });
+};
+
+// People who have messaged the seller about a product, to pick the buyer from
+app.get('/products/:productId/buyers', authenticateToken, async (req, res) => {
   try {
     const { productId } = req.params;
-    const { isAvailable } = req.body;
 
-    if (typeof isAvailable !== 'boolean') {
+    const product = await findOwnProduct(productId, req.userId, res);
+    if (!product) return;
+
+    const userSelect = { select: { id: true, firstName: true, lastName: true } };
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        productId,
+        OR: [
+          { user1Id: req.userId },
+          { user2Id: req.userId }
+        ]
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      include: { user1: userSelect, user2: userSelect }
+    });
+
+    const buyers = conversations.map(conversation =>
+      conversation.user1Id === req.userId ? conversation.user2 : conversation.user1
+    );
+
+    res.json({
+      success: true,
+      message: 'Buyers retrieved successfully',
+      data: { buyers }
+    });
+
+  } catch (error) {
+    console.error('Get buyers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve buyers',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.patch('/products/:productId/status', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { error, value } = productSchemas.updateStatus.validate(req.body);
+
+    if (error) {
       return res.status(400).json({
         success: false,
-        message: 'isAvailable must be a boolean value'
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
       });
     }
 
-    // Check if product exists and user owns it
-    const existingProduct = await prisma.product.findUnique({
-      where: { id: productId }
-    });
+    const existingProduct = await findOwnProduct(productId, req.userId, res);
+    if (!existingProduct) return;
 
-    if (!existingProduct) {
-      return res.status(404).json({
+    const { status, reservedForId, reservedUntil, salePrice } = value;
+
+    if (!canTransition(existingProduct.status, status)) {
+      return rejectTransition(res, existingProduct.status, status);
+    }
+
+    // A listing can only be held for someone who has asked about it
+    if (reservedForId && !await hasConversationAbout(productId, req.userId, reservedForId)) {
+      return res.status(400).json({
         success: false,
-        message: 'Product not found'
+        message: 'You can only reserve a product for someone you have a conversation with about it'
       });
     }
 
-    if (existingProduct.sellerId !== req.userId) {
-      return res.status(403).json({
+    // A reserved product is sold to the buyer it was held for unless told otherwise
+    const buyerId = status === PRODUCT_STATUS.SOLD
+      ? value.buyerId || existingProduct.reservedForId
+      : null;
+
+    if (value.buyerId && !await hasConversationAbout(productId, req.userId, value.buyerId)) {
+      return res.status(400).json({
         success: false,
-        message: 'You can only update your own products'
+        message: 'The buyer must be someone you have a conversation with about this product'
       });
     }
 
-    const product = await prisma.product.update({
-      where: { id: productId },
-      data: { isAvailable },
-      include: {
-        seller: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            college: true
-          }
-        }
-      }
+    const { product, transaction } = await changeProductStatus(
+      existingProduct,
+      status,
+      { reservedForId, reservedUntil },
+      buyerId ? { buyerId, salePrice } : undefined
+    );
+
+    res.json({
+      success: true,
+      message: `Product marked as ${status.toLowerCase()}`,
+      data: { product, transaction }
     });
 
-    // Clear relevant cache entries
-    await redis.del(`product:${productId}`);
+  } catch (error) {
+    console.error('Update status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update product status',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Kept for older clients: available maps to ACTIVE and unavailable to SOLD
+app.patch('/products/:productId/availability', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { isAvailable } = req.body;
+
+    if (typeof isAvailable !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'isAvailable must be a boolean value'
+      });
+    }
+
+    const existingProduct = await findOwnProduct(productId, req.userId, res);
+    if (!existingProduct) return;
+
+    const status = isAvailable ? PRODUCT_STATUS.ACTIVE : PRODUCT_STATUS.SOLD;
+
+    if (!canTransition(existingProduct.status, status)) {
+      return rejectTransition(res, existingProduct.status, status);
+    }
+
+    const { product } = await changeProductStatus(
+      existingProduct,
+      status,
+      undefined,
+      status === PRODUCT_STATUS.SOLD && existingProduct.reservedForId
+        ? { buyerId: existingProduct.reservedForId }
+        : undefined
+    );
 
     res.json({
       success: true,
@@ -616,6 +923,13 @@ const startServer = async () => {
   try {
     await connectDatabase();
     await connectRedis();
+
+    // Release lapsed reservations and expire old listings every minute, on
+    // one instance only so each change is published once
+    setInterval(() => {
+      runExclusively('expire-products', 55 * 1000, expireProducts)
+        .catch(error => console.error('Expire products error:', error));
+    }, 60 * 1000);
     
     app.listen(PORT, () => {
       console.log(`📦 Product service running on port ${PORT}`);
@@ -1,13 +1,35 @@
 const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
+const { Prisma, Category, Condition } = require('@prisma/client');
 const { prisma, connectDatabase, healthCheck } = require('../../config/database');
 const { redis, connectRedis } = require('../../config/redis');
-const { productSchemas, validate } = require('../../shared/utils/validation');
+const { authenticateToken, optionalAuth, requireAdmin } = require('../../shared/middleware/auth');
+const { productSchemas, searchSchemas, validate } = require('../../shared/utils/validation');
+const { CHANNELS, PRODUCT_EVENTS, subscribe } = require('../../shared/utils/events');
+const { claimEvent } = require('../../shared/utils/locks');
+const { notifyUsers } = require('../../shared/utils/notifications');
+const { resolveCollegeFilter } = require('../../shared/utils/colleges');
+const { PRODUCT_STATUS } = require('../../shared/utils/productStatus');
+const { getBlockedUserIds } = require('../../shared/utils/blocks');
+const { withSearchCache, getSearchCacheStats } = require('../../shared/utils/searchCache');
 require('dotenv').config();
 
 const app = express();
 const PORT = process.env.SEARCH_SERVICE_PORT || 3004;
+const MAX_SAVED_SEARCHES = 20;
+// Below this many full-text matches, GET /search also looks for titles
+// spelled like the query and suggests a corrected query
+const FUZZY_SEARCH_BELOW = 5;
+// pg_trgm word similarity a title needs to count as a fuzzy match, and a
+// title word needs to be offered as a correction
+const FUZZY_MATCH_THRESHOLD = 0.5;
+const CORRECTION_THRESHOLD = 0.4;
+// Most fuzzy matches added to a search's results
+const MAX_FUZZY_MATCHES = 100;
+// Target number of price histogram buckets; rounding the bucket width can
+// add one
+const PRICE_HISTOGRAM_BUCKETS = 5;
 
 // Middleware
 app.use(helmet());
@@ -15,157 +37,505 @@ app.use(cors());
 app.use(express.json());
 
 // Utility functions
-const buildSearchWhere = (filters) => {
-  const where = { isAvailable: true };
+
+// Words of a search query, leaving out web search syntax and excluded words
+const getQueryWords = (query) => query
+  .toLowerCase()
+  .split(/\s+/)
+  .filter(token => token && !token.startsWith('-') && token !== 'or')
+  .flatMap(token => token.match(/[a-z0-9]+/g) || []);
+
+// Active listings with a title spelled like the query, such as "Casio
+// calculator" for "calculater". Returns a map of product id to trigram word
+// similarity; the threshold is set for this query only so the trigram index
+// on title can be used.
+const findSimilarTitles = async (query) => {
+  const words = getQueryWords(query).join(' ');
+  if (!words) return new Map();
+
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_MATCH_THRESHOLD)}, true)`,
+    prisma.$queryRaw`
+      SELECT "id", word_similarity(${words}, "title") AS "similarity"
+      FROM "products"
+      WHERE "status" = 'ACTIVE'
+        AND ${words} <% "title"
+      ORDER BY "similarity" DESC
+      LIMIT ${MAX_FUZZY_MATCHES}
+    `
+  ]);
+
+  return new Map(rows.map(row => [row.id, row.similarity]));
+};
+
+// The query with misspelled words replaced by the closest word from active
+// listing titles, or null when there is nothing to correct
+const suggestCorrection = async (query) => {
+  const words = [...new Set(getQueryWords(query))];
+  if (words.length === 0) return null;
+
+  const rows = await prisma.$queryRaw`
+    SELECT DISTINCT ON (q."word") q."word" AS "original", v."word" AS "suggestion"
+    FROM unnest(${words}::text[]) AS q("word")
+    JOIN (
+      SELECT DISTINCT regexp_split_to_table(lower("title"), '[^a-z0-9]+') AS "word"
+      FROM "products"
+      WHERE "status" = 'ACTIVE'
+    ) v ON length(v."word") >= 3 AND similarity(v."word", q."word") >= ${CORRECTION_THRESHOLD}
+    ORDER BY q."word", similarity(v."word", q."word") DESC, v."word"
+  `;
+
+  const corrections = Object.fromEntries(rows
+    .filter(row => row.original !== row.suggestion)
+    .map(row => [row.original, row.suggestion]));
+  if (Object.keys(corrections).length === 0) return null;
+
+  return query.replace(/[a-z0-9]+/gi, word => corrections[word.toLowerCase()] || word);
+};
+
+// SQL that matches and ranks a search query against listings p, with the
+// corrected query as didYouMean. Full-text matching uses the generated
+// search_vector column and its GIN index; websearch_to_tsquery understands
+// "quoted phrases", OR and -exclusions. Few full matches usually means a
+// typo, so listings with similarly spelled titles match too, ranked below
+// every full match.
+const getTextMatch = async (query) => {
+  const tsQuery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+  const textMatch = {
+    condition: Prisma.sql`p."search_vector" @@ ${tsQuery}`,
+    rank: Prisma.sql`ts_rank(p."search_vector", ${tsQuery})`,
+    didYouMean: null
+  };
+
+  const [{ count }] = await prisma.$queryRaw`
+    SELECT count(*)::int AS "count"
+    FROM (
+      SELECT 1 FROM "products"
+      WHERE "status" = 'ACTIVE' AND "search_vector" @@ ${tsQuery}
+      LIMIT ${FUZZY_SEARCH_BELOW}
+    ) AS m
+  `;
+  if (count >= FUZZY_SEARCH_BELOW) return textMatch;
+
+  const [similarTitles, correction] = await Promise.all([
+    findSimilarTitles(query),
+    suggestCorrection(query)
+  ]);
+  textMatch.didYouMean = correction;
+
+  if (similarTitles.size > 0) {
+    const words = getQueryWords(query).join(' ');
+    textMatch.condition = Prisma.sql`(${textMatch.condition} OR p."id" IN (${Prisma.join([...similarTitles.keys()])}))`;
+    textMatch.rank = Prisma.sql`
+      CASE WHEN p."search_vector" @@ ${tsQuery} THEN ${textMatch.rank}
+      ELSE word_similarity(${words}, p."title") - 1 END
+    `;
+  }
+
+  return textMatch;
+};
+
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const DESCRIPTION_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" ... "';
+
+// Title and description snippets with the matched words wrapped in <mark>
+// tags, keyed by product id. The surrounding text is not HTML-escaped. The
+// description is null when the match was only in the title.
+const getHighlights = async (query, productIds) => {
+  const rows = await prisma.$queryRaw`
+    SELECT p."id",
+      ts_headline('english', p."title", q.query, ${TITLE_HEADLINE_OPTIONS}) AS "title",
+      ts_headline('english', coalesce(p."description", ''), q.query, ${DESCRIPTION_HEADLINE_OPTIONS}) AS "description"
+    FROM "products" p, websearch_to_tsquery('english', ${query}) AS q(query)
+    WHERE p."id" IN (${Prisma.join(productIds)})
+  `;
+
+  return Object.fromEntries(rows.map(row => [row.id, {
+    title: row.title,
+    description: row.description.includes('<mark>') ? row.description : null
+  }]));
+};
+
+// Listings searched, each with its seller for the college filters
+const SEARCH_FROM = Prisma.sql`"products" p JOIN "users" u ON u."id" = p."seller_id"`;
+
+// SQL condition on SEARCH_FROM for a search's filters. textMatch is the
+// result of getTextMatch for filters.query. The plural filters from
+// POST /search/advanced match any of their values.
+const buildSearchConditions = (filters, textMatch) => {
+  const conditions = [Prisma.sql`p."status" = 'ACTIVE'`];
 
   if (filters.category) {
-    where.category = filters.category;
+    conditions.push(Prisma.sql`p."category"::text = ${filters.category}`);
+  } else if (filters.categories?.length) {
+    conditions.push(Prisma.sql`p."category"::text IN (${Prisma.join(filters.categories)})`);
   }
 
   if (filters.condition) {
-    where.condition = filters.condition;
+    conditions.push(Prisma.sql`p."condition"::text = ${filters.condition}`);
+  } else if (filters.conditions?.length) {
+    conditions.push(Prisma.sql`p."condition"::text IN (${Prisma.join(filters.conditions)})`);
   }
 
-  if (filters.minPrice || filters.maxPrice) {
-    where.price = {};
-    if (filters.minPrice) where.price.gte = parseFloat(filters.minPrice);
-    if (filters.maxPrice) where.price.lte = parseFloat(filters.maxPrice);
-  }
+  if (filters.minPrice) conditions.push(Prisma.sql`p."price" >= ${parseFloat(filters.minPrice)}`);
+  if (filters.maxPrice) conditions.push(Prisma.sql`p."price" <= ${parseFloat(filters.maxPrice)}`);
 
   if (filters.sellerId) {
-    where.sellerId = filters.sellerId;
+    conditions.push(Prisma.sql`p."seller_id" = ${filters.sellerId}`);
+  } else if (filters.excludeSellerIds?.length) {
+    conditions.push(Prisma.sql`p."seller_id" NOT IN (${Prisma.join(filters.excludeSellerIds)})`);
+  }
+
+  if (filters.college) {
+    conditions.push(Prisma.sql`u."college" = ${filters.college}`);
+  } else if (filters.colleges?.length) {
+    conditions.push(Prisma.sql`u."college" IN (${Prisma.join(filters.colleges)})`);
+  }
+
+  if (filters.listedAfter) conditions.push(Prisma.sql`p."created_at" >= ${new Date(filters.listedAfter)}`);
+  if (filters.listedBefore) conditions.push(Prisma.sql`p."created_at" <= ${new Date(filters.listedBefore)}`);
+
+  if (filters.hasImages !== undefined) {
+    conditions.push(filters.hasImages
+      ? Prisma.sql`cardinality(p."images") > 0`
+      : Prisma.sql`cardinality(p."images") = 0`);
   }
 
   if (filters.query) {
-    where.OR = [
-      { title: { contains: filters.query, mode: 'insensitive' } },
-      { description: { contains: filters.query, mode: 'insensitive' } }
-    ];
+    conditions.push(textMatch.condition);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+// Bucket width close to range / buckets, rounded up to 1, 2 or 5 times a
+// power of ten and never under a dollar
+const niceBucketWidth = (range, buckets) => {
+  const rawWidth = Math.max(range / buckets, 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rawWidth));
+  return [1, 2, 5, 10].find(multiple => multiple * magnitude >= rawWidth) * magnitude;
+};
+
+// Equal-width price buckets covering every price, each counting prices from
+// its min up to but not including its max
+const buildPriceHistogram = (priceCounts) => {
+  if (priceCounts.length === 0) return [];
+
+  const prices = priceCounts.map(({ value }) => Number(value));
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const width = max > min ? niceBucketWidth(max - min, PRICE_HISTOGRAM_BUCKETS) : 1;
+  const start = Math.floor(min / width) * width;
+
+  const buckets = Array.from({ length: Math.floor((max - start) / width) + 1 }, (_, index) => ({
+    min: start + index * width,
+    max: start + (index + 1) * width,
+    count: 0
+  }));
+
+  for (const { value, count } of priceCounts) {
+    buckets[Math.floor((Number(value) - start) / width)].count += count;
   }
 
-  return where;
+  return buckets;
 };
 
-const buildOrderBy = (sortBy = 'createdAt', sortOrder = 'desc') => {
-  const orderBy = {};
-  
-  switch (sortBy) {
-    case 'price':
-      orderBy.price = sortOrder;
-      break;
-    case 'title':
-      orderBy.title = sortOrder;
-      break;
-    case 'createdAt':
-    default:
-      orderBy.createdAt = sortOrder;
-      break;
+// How many results each filter option would give alongside the other
+// filters. Every facet leaves out its own filter, so the counts for the
+// options not picked stay meaningful.
+const getSearchFacets = async (filters, textMatch) => {
+  const whereWithout = (...keys) => buildSearchConditions({
+    ...filters,
+    ...Object.fromEntries(keys.map(key => [key, undefined]))
+  }, textMatch);
+
+  const countBy = (column, where) => prisma.$queryRaw`
+    SELECT ${column} AS "value", count(*)::int AS "count"
+    FROM ${SEARCH_FROM}
+    WHERE ${where}
+    GROUP BY 1
+  `;
+
+  const [categories, conditions, colleges, prices] = await Promise.all([
+    countBy(Prisma.sql`p."category"::text`, whereWithout('category', 'categories')),
+    countBy(Prisma.sql`p."condition"::text`, whereWithout('condition', 'conditions')),
+    countBy(Prisma.sql`u."college"`, whereWithout('college', 'colleges')),
+    countBy(Prisma.sql`p."price"`, whereWithout('minPrice', 'maxPrice'))
+  ]);
+
+  const countOptions = (groups, values) => values.map(value => ({
+    value,
+    count: groups.find(group => group.value === value)?.count || 0
+  }));
+
+  return {
+    categories: countOptions(categories, Object.values(Category)),
+    conditions: countOptions(conditions, Object.values(Condition)),
+    colleges: colleges
+      .filter(group => group.value)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    priceHistogram: buildPriceHistogram(prices)
+  };
+};
+
+// Columns GET /search and POST /search/advanced can sort by
+const SORT_COLUMNS = {
+  price: 'p."price"',
+  title: 'p."title"',
+  createdAt: 'p."created_at"'
+};
+
+// ORDER BY for SEARCH_FROM; both arguments are validated, so only known
+// columns and directions reach the SQL
+const buildOrderBy = (sortBy = 'createdAt', sortOrder = 'desc') => Prisma.raw(
+  `${SORT_COLUMNS[sortBy] || SORT_COLUMNS.createdAt} ${sortOrder === 'asc' ? 'ASC' : 'DESC'}`
+);
+
+// Saved searches with notifications on that a newly listed product matches,
+// found in one query. Each filter mirrors buildSearchConditions; filters a saved
+// search doesn't set match everything. Nobody hears about listings from a
+// seller they have blocked or been blocked by.
+const findMatchingSavedSearches = (productId) => prisma.$queryRaw`
+  SELECT s."id", s."user_id" AS "userId", s."name"
+  FROM "saved_searches" s
+  JOIN "products" p ON p."id" = ${productId}
+  JOIN "users" u ON u."id" = p."seller_id"
+  WHERE s."notify"
+    AND s."user_id" <> p."seller_id"
+    AND p."status" = 'ACTIVE'
+    AND NOT EXISTS (
+      SELECT 1 FROM "user_blocks" b
+      WHERE (b."blocker_id" = s."user_id" AND b."blocked_id" = p."seller_id")
+        OR (b."blocker_id" = p."seller_id" AND b."blocked_id" = s."user_id")
+    )
+    AND (s."filters"->>'category' IS NULL OR s."filters"->>'category' = p."category"::text)
+    AND (s."filters"->'categories' IS NULL OR s."filters"->'categories' @> to_jsonb(p."category"::text))
+    AND (s."filters"->>'condition' IS NULL OR s."filters"->>'condition' = p."condition"::text)
+    AND (s."filters"->'conditions' IS NULL OR s."filters"->'conditions' @> to_jsonb(p."condition"::text))
+    AND (s."filters"->>'minPrice' IS NULL OR p."price" >= (s."filters"->>'minPrice')::numeric)
+    AND (s."filters"->>'maxPrice' IS NULL OR p."price" <= (s."filters"->>'maxPrice')::numeric)
+    AND (s."filters"->>'college' IS NULL OR s."filters"->>'college' = u."college")
+    AND (s."filters"->>'hasImages' IS NULL OR (s."filters"->>'hasImages')::boolean = (cardinality(p."images") > 0))
+    AND (
+      coalesce(s."filters"->>'query', '') = ''
+      OR p."search_vector" @@ websearch_to_tsquery('english', s."filters"->>'query')
+    )
+`;
+
+// Evaluate new listings against saved searches and notify their owners
+const handleProductEvent = async ({ type, payload }) => {
+  if (type !== PRODUCT_EVENTS.CREATED) return;
+
+  const savedSearches = await findMatchingSavedSearches(payload.productId);
+  if (savedSearches.length === 0) return;
+
+  for (const savedSearch of savedSearches) {
+    await notifyUsers([savedSearch.userId], {
+      type: 'SAVED_SEARCH_MATCH',
+      title: `New match for "${savedSearch.name}"`,
+      body: `${payload.title} - $${payload.price}`,
+      data: {
+        productId: payload.productId,
+        savedSearchId: savedSearch.id
+      }
+    });
   }
-  
-  return orderBy;
+
+  await prisma.savedSearch.updateMany({
+    where: { id: { in: savedSearches.map(savedSearch => savedSearch.id) } },
+    data: { lastNotifiedAt: new Date() }
+  });
 };
 
+// Search for GET /search and POST /search/advanced: full-text and fuzzy
+// matching, filters, sorting, paging, highlights and, when asked, facets
+const executeSearch = async (filters, { sortBy, sortOrder, page, limit, includeFacets }) => {
+  const skip = (page - 1) * limit;
+  const searchQuery = filters.query;
+  const textMatch = searchQuery ? await getTextMatch(searchQuery) : null;
+  const where = buildSearchConditions(filters, textMatch);
+
+  // Relevance puts the newest first among equal ranks
+  const orderBy = sortBy === 'relevance' && textMatch
+    ? Prisma.sql`${textMatch.rank} DESC, p."created_at" DESC`
+    : buildOrderBy(sortBy, sortOrder);
+
+  // Filter, sort, page and count in the database, then load the page
+  const [pageRows, [{ total: totalCount }]] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT p."id"
+      FROM ${SEARCH_FROM}
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${limit} OFFSET ${skip}
+    `,
+    prisma.$queryRaw`
+      SELECT count(*)::int AS "total"
+      FROM ${SEARCH_FROM}
+      WHERE ${where}
+    `
+  ]);
+  const pageIds = pageRows.map(row => row.id);
+
+  const pageProducts = await prisma.product.findMany({
+    where: { id: { in: pageIds } },
+    include: {
+      seller: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          college: true
+        }
+      }
+    }
+  });
+  const productsById = new Map(pageProducts.map(product => [product.id, product]));
+  let products = pageIds.map(id => productsById.get(id)).filter(Boolean);
+
+  if (textMatch && products.length > 0) {
+    const highlights = await getHighlights(searchQuery, products.map(product => product.id));
+    products = products.map(product => ({ ...product, highlight: highlights[product.id] }));
+  }
+
+  const results = {
+    products,
+    didYouMean: textMatch ? textMatch.didYouMean : null,
+    ...(includeFacets && { facets: await getSearchFacets(filters, textMatch) }),
+    pagination: {
+      page,
+      limit,
+      total: totalCount,
+      pages: Math.ceil(totalCount / limit)
+    }
+  };
+
+  return results;
+};
+
+// Search results cached for 5 minutes, or until a listing changes; cached
+// is true when they came from the cache
+const runSearch = async (filters, options) => {
+  const { value: results, cached } = await withSearchCache(
+    'results',
+    JSON.stringify({ ...filters, ...options }),
+    300,
+    () => executeSearch(filters, options)
+  );
+
+  // Track search query if not empty, whether or not it was cached
+  if (filters.query) {
+    await redis.zIncrBy('search:popular', 1, filters.query.toLowerCase());
+  }
+
+  return { results, cached };
+};
+
+// Listings from sellers the user has blocked are left out unless they
+// pass hideBlocked=false
+const getExcludedSellerIds = async (user, hideBlocked) => (
+  user && hideBlocked ? (await getBlockedUserIds(user.userId)).sort() : []
+);
+
 // Search routes
-app.get('/search', async (req, res) => {
+app.get('/search', optionalAuth, validate(productSchemas.search, 'query'), async (req, res) => {
   try {
     const {
-      query = '',
+      query,
       category,
       condition,
       minPrice,
       maxPrice,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
-      page = 1,
-      limit = 12
+      sortBy,
+      sortOrder,
+      page,
+      limit,
+      hideBlocked,
+      facets
     } = req.query;
 
-    const skip = (page - 1) * limit;
-    const take = parseInt(limit);
-
-    // Generate cache key
-    const cacheKey = `search:${JSON.stringify({
-      query, category, condition, minPrice, maxPrice, sortBy, sortOrder, page, limit
-    })}`;
+    // Signed-in users see their own campus unless they pick another one
+    const college = await resolveCollegeFilter(req.query.college, req.user?.userId);
 
-    // Check cache first
-    const cachedResults = await redis.get(cacheKey);
-    if (cachedResults) {
-      return res.json({
-        success: true,
-        message: 'Search results retrieved from cache',
-        data: JSON.parse(cachedResults),
-        cached: true
-      });
-    }
-
-    // Build search filters
-    const where = buildSearchWhere({
-      query: query.trim(),
+    const { results, cached } = await runSearch({
+      query,
       category,
       condition,
+      college,
       minPrice,
-      maxPrice
-    });
-
-    const orderBy = buildOrderBy(sortBy, sortOrder);
-
-    // Execute search
-    const [products, totalCount] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        skip,
-        take,
-        orderBy,
-        include: {
-          seller: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              college: true
-            }
-          }
+      maxPrice,
+      excludeSellerIds: await getExcludedSellerIds(req.user, hideBlocked)
+    }, { sortBy, sortOrder, page, limit, includeFacets: facets });
+
+    res.json({
+      success: true,
+      message: cached ? 'Search results retrieved from cache' : 'Search completed successfully',
+      data: {
+        ...results,
+        filters: {
+          query,
+          category,
+          condition,
+          college: college || 'all',
+          minPrice,
+          maxPrice,
+          sortBy,
+          sortOrder
         }
-      }),
-      prisma.product.count({ where })
-    ]);
-
-    const results = {
-      products,
-      pagination: {
-        page: parseInt(page),
-        limit: take,
-        total: totalCount,
-        pages: Math.ceil(totalCount / take)
       },
-      filters: {
-        query: query.trim(),
-        category,
-        condition,
-        minPrice,
-        maxPrice,
-        sortBy,
-        sortOrder
-      }
-    };
+      ...(cached && { cached })
+    });
 
-    // Cache results for 5 minutes
-    await redis.setEx(cacheKey, 300, JSON.stringify(results));
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Search failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/search/advanced', optionalAuth, validate(searchSchemas.advanced), async (req, res) => {
+  try {
+    const { sortBy, sortOrder, page, limit, hideBlocked, facets, ...filters } = req.body;
 
-    // Track search query if not empty
-    if (query.trim()) {
-      await redis.zincrby('search:popular', 1, query.trim().toLowerCase());
+    // Without a college list signed-in users see their own campus, except
+    // when looking at one seller's listings
+    let { colleges } = filters;
+    if (!colleges && !filters.sellerId) {
+      const college = await resolveCollegeFilter(undefined, req.user?.userId);
+      colleges = college ? [college] : [];
     }
 
+    const searchFilters = {
+      ...filters,
+      colleges,
+      excludeSellerIds: await getExcludedSellerIds(req.user, hideBlocked)
+    };
+    const { results, cached } = await runSearch(searchFilters, {
+      sortBy, sortOrder, page, limit, includeFacets: facets
+    });
+
     res.json({
       success: true,
-      message: 'Search completed successfully',
-      data: results
+      message: cached ? 'Search results retrieved from cache' : 'Search completed successfully',
+      data: {
+        ...results,
+        filters: {
+          ...filters,
+          colleges: colleges || [],
+          sortBy,
+          sortOrder
+        }
+      },
+      ...(cached && { cached })
     });
 
   } catch (error) {
-    console.error('Search error:', error);
+    console.error('Advanced search error:', error);
     res.status(500).json({
       success: false,
       message: 'Search failed',
@@ -174,6 +544,163 @@ app.get('/search', async (req, res) => {
   }
 });
 
+// Saved search routes
+app.get('/search/saved', authenticateToken, async (req, res) => {
+  try {
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId: req.userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      message: 'Saved searches retrieved successfully',
+      data: { savedSearches }
+    });
+
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve saved searches',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/search/saved', authenticateToken, async (req, res) => {
+  try {
+    const { error, value } = searchSchemas.saveSearch.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const savedCount = await prisma.savedSearch.count({
+      where: { userId: req.userId }
+    });
+
+    if (savedCount >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        success: false,
+        message: `You can save up to ${MAX_SAVED_SEARCHES} searches`
+      });
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        userId: req.userId,
+        name: value.name,
+        filters: value.filters,
+        notify: value.notify
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Search saved successfully',
+      data: { savedSearch }
+    });
+
+  } catch (error) {
+    console.error('Save search error:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'You already have a saved search with this name'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save search',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.put('/search/saved/:savedSearchId', authenticateToken, async (req, res) => {
+  try {
+    const { savedSearchId } = req.params;
+    const { error, value } = searchSchemas.updateSavedSearch.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingSearch = await prisma.savedSearch.findFirst({
+      where: { id: savedSearchId, userId: req.userId }
+    });
+
+    if (!existingSearch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Saved search not found'
+      });
+    }
+
+    const savedSearch = await prisma.savedSearch.update({
+      where: { id: savedSearchId },
+      data: value
+    });
+
+    res.json({
+      success: true,
+      message: 'Saved search updated successfully',
+      data: { savedSearch }
+    });
+
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'You already have a saved search with this name'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update saved search',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/search/saved/:savedSearchId', authenticateToken, async (req, res) => {
+  try {
+    const { savedSearchId } = req.params;
+
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id: savedSearchId, userId: req.userId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Saved search deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete saved search',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 app.get('/search/suggestions', async (req, res) => {
   try {
     const { query = '' } = req.query;
@@ -186,26 +713,21 @@ app.get('/search/suggestions', async (req, res) => {
       });
     }
 
-    // Get product title suggestions
-    const titleSuggestions = await prisma.product.findMany({
-      where: {
-        isAvailable: true,
-        title: {
-          contains: searchTerm,
-          mode: 'insensitive'
-        }
-      },
-      select: {
-        title: true
-      },
-      take: 5,
-      distinct: ['title']
-    });
+    // Titles containing or spelled like the search term, closest first
+    const titleSuggestions = await prisma.$queryRaw`
+      SELECT "title"
+      FROM "products"
+      WHERE "status" = 'ACTIVE'
+        AND (${searchTerm} <% "title" OR "title" ILIKE ${`%${escapeLike(searchTerm)}%`})
+      GROUP BY "title"
+      ORDER BY word_similarity(${searchTerm}, "title") DESC, "title"
+      LIMIT 5
+    `;
 
     // Get category suggestions
     const categories = await prisma.product.findMany({
       where: {
-        isAvailable: true
+        status: PRODUCT_STATUS.ACTIVE
       },
       select: {
         category: true
@@ -246,15 +768,12 @@ app.get('/search/popular', async (req, res) => {
     const { limit = 10 } = req.query;
 
     // Get popular search terms from Redis
-    const popularTerms = await redis.zrevrange('search:popular', 0, limit - 1, 'WITHSCORES');
+    const popularTerms = await redis.zRangeWithScores('search:popular', 0, parseInt(limit) - 1, { REV: true });
     
-    const formattedTerms = [];
-    for (let i = 0; i < popularTerms.length; i += 2) {
-      formattedTerms.push({
-        term: popularTerms[i],
-        count: parseInt(popularTerms[i + 1])
-      });
-    }
+    const formattedTerms = popularTerms.map(({ value, score }) => ({
+      term: value,
+      count: score
+    }));
 
     res.json({
       success: true,
@@ -276,47 +795,35 @@ app.get('/search/popular', async (req, res) => {
 
 app.get('/search/categories', async (req, res) => {
   try {
-    const cacheKey = 'search:categories';
-    
-    // Check cache first
-    const cachedCategories = await redis.get(cacheKey);
-    if (cachedCategories) {
-      return res.json({
-        success: true,
-        message: 'Categories retrieved from cache',
-        data: JSON.parse(cachedCategories),
-        cached: true
-      });
-    }
-
-    const categories = await prisma.product.groupBy({
-      by: ['category'],
-      where: { isAvailable: true },
-      _count: {
-        category: true
-      },
-      orderBy: {
+    // Cache for 30 minutes, or until a listing changes
+    const { value: categories, cached } = await withSearchCache('categories', 'categories', 1800, async () => {
+      const groups = await prisma.product.groupBy({
+        by: ['category'],
+        where: { status: PRODUCT_STATUS.ACTIVE },
         _count: {
-          category: 'desc'
+          category: true
+        },
+        orderBy: {
+          _count: {
+            category: 'desc'
+          }
         }
-      }
-    });
-
-    const formattedCategories = categories.map(cat => ({
-      name: cat.category,
-      count: cat._count.category,
-      slug: cat.category.toLowerCase().replace(/[^a-z0-9]/g, '-')
-    }));
+      });
 
-    // Cache for 30 minutes
-    await redis.setEx(cacheKey, 1800, JSON.stringify(formattedCategories));
+      return groups.map(cat => ({
+        name: cat.category,
+        count: cat._count.category,
+        slug: cat.category.toLowerCase().replace(/[^a-z0-9]/g, '-')
+      }));
+    });
 
     res.json({
       success: true,
-      message: 'Categories retrieved successfully',
+      message: cached ? 'Categories retrieved from cache' : 'Categories retrieved successfully',
       data: {
-        categories: formattedCategories
-      }
+        categories
+      },
+      ...(cached && { cached })
     });
 
   } catch (error) {
@@ -331,66 +838,55 @@ app.get('/search/categories', async (req, res) => {
 
 app.get('/search/filters', async (req, res) => {
   try {
-    const cacheKey = 'search:filters';
-    
-    // Check cache first
-    const cachedFilters = await redis.get(cacheKey);
-    if (cachedFilters) {
-      return res.json({
-        success: true,
-        message: 'Filters retrieved from cache',
-        data: JSON.parse(cachedFilters),
-        cached: true
+    // Cache for 1 hour, or until a listing changes
+    const { value: filters, cached } = await withSearchCache('filters', 'filters', 3600, async () => {
+      // Get available categories
+      const categories = await prisma.product.findMany({
+        where: { status: PRODUCT_STATUS.ACTIVE },
+        select: { category: true },
+        distinct: ['category']
       });
-    }
 
-    // Get available categories
-    const categories = await prisma.product.findMany({
-      where: { isAvailable: true },
-      select: { category: true },
-      distinct: ['category']
-    });
+      // Get available conditions
+      const conditions = await prisma.product.findMany({
+        where: { status: PRODUCT_STATUS.ACTIVE },
+        select: { condition: true },
+        distinct: ['condition']
+      });
 
-    // Get available conditions
-    const conditions = await prisma.product.findMany({
-      where: { isAvailable: true },
-      select: { condition: true },
-      distinct: ['condition']
-    });
+      // Get price range
+      const priceStats = await prisma.product.aggregate({
+        where: { status: PRODUCT_STATUS.ACTIVE },
+        _min: { price: true },
+        _max: { price: true },
+        _avg: { price: true }
+      });
 
-    // Get price range
-    const priceStats = await prisma.product.aggregate({
-      where: { isAvailable: true },
-      _min: { price: true },
-      _max: { price: true },
-      _avg: { price: true }
+      return {
+        categories: categories.map(c => c.category).sort(),
+        conditions: conditions.map(c => c.condition).sort(),
+        priceRange: {
+          min: priceStats._min.price || 0,
+          max: priceStats._max.price || 1000,
+          average: priceStats._avg.price || 0
+        },
+        sortOptions: [
+          { value: 'relevance', label: 'Best Match', order: 'desc' },
+          { value: 'createdAt', label: 'Newest First', order: 'desc' },
+          { value: 'createdAt', label: 'Oldest First', order: 'asc' },
+          { value: 'price', label: 'Price: Low to High', order: 'asc' },
+          { value: 'price', label: 'Price: High to Low', order: 'desc' },
+          { value: 'title', label: 'Name: A to Z', order: 'asc' },
+          { value: 'title', label: 'Name: Z to A', order: 'desc' }
+        ]
+      };
     });
 
-    const filters = {
-      categories: categories.map(c => c.category).sort(),
-      conditions: conditions.map(c => c.condition).sort(),
-      priceRange: {
-        min: priceStats._min.price || 0,
-        max: priceStats._max.price || 1000,
-        average: priceStats._avg.price || 0
-      },
-      sortOptions: [
-        { value: 'createdAt', label: 'Newest First', order: 'desc' },
-        { value: 'createdAt', label: 'Oldest First', order: 'asc' },
-        { value: 'price', label: 'Price: Low to High', order: 'asc' },
-        { value: 'price', label: 'Price: High to Low', order: 'desc' },
-        { value: 'title', label: 'Name: A to Z', order: 'asc' },
-        { value: 'title', label: 'Name: Z to A', order: 'desc' }
-      ]
-    };
-
-    // Cache for 1 hour
-    await redis.setEx(cacheKey, 3600, JSON.stringify(filters));
-
     res.json({
       success: true,
-      message: 'Search filters retrieved successfully',
-      data: { filters }
+      message: cached ? 'Filters retrieved from cache' : 'Search filters retrieved successfully',
+      data: { filters },
+      ...(cached && { cached })
     });
 
   } catch (error) {
@@ -405,64 +901,73 @@ app.get('/search/filters', async (req, res) => {
 
 app.get('/search/stats', async (req, res) => {
   try {
-    const cacheKey = 'search:stats';
-    
-    // Check cache first
-    const cachedStats = await redis.get(cacheKey);
-    if (cachedStats) {
-      return res.json({
-        success: true,
-        message: 'Search stats retrieved from cache',
-        data: JSON.parse(cachedStats),
-        cached: true
+    // Cache for 15 minutes, or until a listing changes
+    const { value: stats, cached } = await withSearchCache('stats', 'stats', 900, async () => {
+      // Get total available products
+      const totalProducts = await prisma.product.count({
+        where: { status: PRODUCT_STATUS.ACTIVE }
       });
-    }
 
-    // Get total available products
-    const totalProducts = await prisma.product.count({
-      where: { isAvailable: true }
-    });
+      // Get category breakdown
+      const categoryBreakdown = await prisma.product.groupBy({
+        by: ['category'],
+        where: { status: PRODUCT_STATUS.ACTIVE },
+        _count: { category: true }
+      });
+
+      // Get condition breakdown
+      const conditionBreakdown = await prisma.product.groupBy({
+        by: ['condition'],
+        where: { status: PRODUCT_STATUS.ACTIVE },
+        _count: { condition: true }
+      });
 
-    // Get category breakdown
-    const categoryBreakdown = await prisma.product.groupBy({
-      by: ['category'],
-      where: { isAvailable: true },
-      _count: { category: true }
+      return {
+        totalProducts,
+        categoryBreakdown: categoryBreakdown.map(c => ({
+          category: c.category,
+          count: c._count.category
+        })),
+        conditionBreakdown: conditionBreakdown.map(c => ({
+          condition: c.condition,
+          count: c._count.condition
+        }))
+      };
     });
 
-    // Get condition breakdown
-    const conditionBreakdown = await prisma.product.groupBy({
-      by: ['condition'],
-      where: { isAvailable: true },
-      _count: { condition: true }
+    res.json({
+      success: true,
+      message: cached ? 'Search stats retrieved from cache' : 'Search statistics retrieved successfully',
+      data: { stats },
+      ...(cached && { cached })
     });
 
-    const stats = {
-      totalProducts,
-      categoryBreakdown: categoryBreakdown.map(c => ({
-        category: c.category,
-        count: c._count.category
-      })),
-      conditionBreakdown: conditionBreakdown.map(c => ({
-        condition: c.condition,
-        count: c._count.condition
-      }))
-    };
+  } catch (error) {
+    console.error('Get search stats error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get search statistics',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
 
-    // Cache for 15 minutes
-    await redis.setEx(cacheKey, 900, JSON.stringify(stats));
+// Hit rate of the search caches, overall and per cache (admin)
+app.get('/search/cache/stats', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const cacheStats = await getSearchCacheStats();
 
     res.json({
       success: true,
-      message: 'Search statistics retrieved successfully',
-      data: { stats }
+      message: 'Search cache statistics retrieved successfully',
+      data: { cacheStats }
     });
 
   } catch (error) {
-    console.error('Get search stats error:', error);
+    console.error('Get search cache stats error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get search statistics',
+      message: 'Failed to get search cache statistics',
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
@@ -517,6 +1022,12 @@ const startServer = async () => {
   try {
     await connectDatabase();
     await connectRedis();
+    // Only one instance notifies for each event
+    await subscribe(CHANNELS.PRODUCTS, async (event) => {
+      if (await claimEvent('search', event)) {
+        await handleProductEvent(event);
+      }
+    });
     
     app.listen(PORT, () => {
       console.log(`🔍 Search service running on port ${PORT}`);
@@ -4,9 +4,15 @@ const helmet = require('helmet');
 const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const { prisma, connectDatabase, healthCheck } = require('../../config/database');
-const { redis, connectRedis } = require('../../config/redis');
-const { authenticateToken } = require('../../shared/middleware/auth');
-const { userSchemas } = require('../../shared/utils/validation');
+const { redis, connectRedis, redisUtils } = require('../../config/redis');
+const { authenticateToken, requireAdmin } = require('../../shared/middleware/auth');
+const { userSchemas, collegeSchemas, reportSchemas, validate } = require('../../shared/utils/validation');
+const { findCollegeByEmail, findConflictingDomains, syncCollegeUsers } = require('../../shared/utils/colleges');
+const { revokeAllSessions } = require('../../shared/utils/sessions');
+const { PRODUCT_STATUS, canTransition, getStatusChangeData } = require('../../shared/utils/productStatus');
+const { notifyUsers } = require('../../shared/utils/notifications');
+const { CHANNELS, USER_EVENTS, publishEvent } = require('../../shared/utils/events');
+const { invalidateSearchCache } = require('../../shared/utils/searchCache');
 require('dotenv').config();
 
 const app = express();
@@ -62,6 +68,24 @@ const uploadToCloudinary = (buffer, options = {}) => {
   });
 };
 
+// Average rating and review count for a user
+const getReputation = async (userId) => {
+  const [ratings, completedSales] = await Promise.all([
+    prisma.review.aggregate({
+      where: { revieweeId: userId },
+      _avg: { rating: true },
+      _count: { rating: true }
+    }),
+    prisma.transaction.count({ where: { sellerId: userId } })
+  ]);
+
+  return {
+    averageRating: ratings._avg.rating ? Math.round(ratings._avg.rating * 10) / 10 : null,
+    reviewCount: ratings._count.rating,
+    completedSales
+  };
+};
+
 // User routes
 app.get('/users/profile', authenticateToken, async (req, res) => {
   try {
@@ -73,8 +97,10 @@ app.get('/users/profile', authenticateToken, async (req, res) => {
         firstName: true,
         lastName: true,
         college: true,
+        collegeId: true,
         phone: true,
         isVerified: true,
+        role: true,
         createdAt: true,
         _count: {
           select: {
@@ -134,8 +160,10 @@ app.put('/users/profile', authenticateToken, async (req, res) => {
         firstName: true,
         lastName: true,
         college: true,
+        collegeId: true,
         phone: true,
         isVerified: true,
+        role: true,
         updatedAt: true
       }
     });
@@ -162,6 +190,75 @@ app.put('/users/profile', authenticateToken, async (req, res) => {
   }
 });
 
+app.get('/users/notification-preferences', authenticateToken, async (req, res) => {
+  try {
+    const preferences = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: {
+        notifyPriceDrops: true,
+        notifyBackInStock: true
+      }
+    });
+
+    if (!preferences) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification preferences retrieved successfully',
+      data: { preferences }
+    });
+
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve notification preferences',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.put('/users/notification-preferences', authenticateToken, async (req, res) => {
+  try {
+    const { error, value } = userSchemas.notificationPreferences.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const preferences = await prisma.user.update({
+      where: { id: req.userId },
+      data: value,
+      select: {
+        notifyPriceDrops: true,
+        notifyBackInStock: true
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated successfully',
+      data: { preferences }
+    });
+
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification preferences',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 app.post('/users/profile/image', authenticateToken, upload.single('image'), async (req, res) => {
   try {
     if (!req.file) {
@@ -222,7 +319,7 @@ app.get('/users/:userId/public', async (req, res) => {
         createdAt: true,
         _count: {
           select: {
-            products: { where: { isAvailable: true } }
+            products: { where: { status: 'ACTIVE' } }
           }
         }
       }
@@ -235,13 +332,16 @@ app.get('/users/:userId/public', async (req, res) => {
       });
     }
 
+    const reputation = await getReputation(userId);
+
     res.json({
       success: true,
       message: 'Public profile retrieved successfully',
       data: {
         user: {
           ...user,
-          activeProductsCount: user._count.products
+          activeProductsCount: user._count.products,
+          reputation
         }
       }
     });
@@ -256,6 +356,182 @@ app.get('/users/:userId/public', async (req, res) => {
   }
 });
 
+app.get('/users/:userId/reviews', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { page = 1, limit = 10 } = req.query;
+
+    const skip = (page - 1) * limit;
+    const take = parseInt(limit);
+
+    const where = { revieweeId: userId };
+
+    const [reviews, totalCount] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          reviewer: {
+            select: { id: true, firstName: true, lastName: true }
+          },
+          transaction: {
+            select: {
+              sellerId: true,
+              product: { select: { id: true, title: true } }
+            }
+          }
+        }
+      }),
+      prisma.review.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Reviews retrieved successfully',
+      data: {
+        reviews: reviews.map(({ transaction, ...review }) => ({
+          ...review,
+          product: transaction.product,
+          role: transaction.sellerId === userId ? 'SELLER' : 'BUYER'
+        })),
+        pagination: {
+          page: parseInt(page),
+          limit: take,
+          total: totalCount,
+          pages: Math.ceil(totalCount / take)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve reviews',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/users/transactions', authenticateToken, async (req, res) => {
+  try {
+    const userSelect = { select: { id: true, firstName: true, lastName: true } };
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        OR: [
+          { sellerId: req.userId },
+          { buyerId: req.userId }
+        ]
+      },
+      orderBy: { completedAt: 'desc' },
+      include: {
+        product: { select: { id: true, title: true, images: true } },
+        seller: userSelect,
+        buyer: userSelect,
+        reviews: { select: { reviewerId: true, rating: true, comment: true } }
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Transactions retrieved successfully',
+      data: {
+        transactions: transactions.map(({ reviews, ...transaction }) => ({
+          ...transaction,
+          role: transaction.sellerId === req.userId ? 'SELLER' : 'BUYER',
+          myReview: reviews.find(review => review.reviewerId === req.userId) || null,
+          theirReview: reviews.find(review => review.reviewerId !== req.userId) || null
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get transactions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve transactions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/users/transactions/:transactionId/reviews', authenticateToken, async (req, res) => {
+  try {
+    const { transactionId } = req.params;
+    const { error, value } = userSchemas.createReview.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const transaction = await prisma.transaction.findFirst({
+      where: {
+        id: transactionId,
+        OR: [
+          { sellerId: req.userId },
+          { buyerId: req.userId }
+        ]
+      }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+    }
+
+    const review = await prisma.review.create({
+      data: {
+        transactionId,
+        reviewerId: req.userId,
+        revieweeId: transaction.sellerId === req.userId ? transaction.buyerId : transaction.sellerId,
+        rating: value.rating,
+        comment: value.comment || null
+      },
+      include: {
+        reviewer: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      }
+    });
+
+    await notifyUsers([review.revieweeId], {
+      type: 'REVIEW',
+      title: 'New review',
+      body: `${review.reviewer.firstName} left you a ${review.rating}-star review`,
+      data: { reviewId: review.id, transactionId, reviewerId: review.reviewerId }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Review submitted successfully',
+      data: { review }
+    });
+
+  } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this transaction'
+      });
+    }
+
+    console.error('Create review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit review',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 app.get('/users/stats', authenticateToken, async (req, res) => {
   try {
     const stats = await prisma.user.findUnique({
@@ -273,13 +549,12 @@ app.get('/users/stats', authenticateToken, async (req, res) => {
     });
 
     const productStats = await prisma.product.groupBy({
-      by: ['isAvailable'],
+      by: ['status'],
       where: { sellerId: req.userId },
       _count: true
     });
 
-    const activeProducts = productStats.find(stat => stat.isAvailable)?._count || 0;
-    const soldProducts = productStats.find(stat => !stat.isAvailable)?._count || 0;
+    const countByStatus = (status) => productStats.find(stat => stat.status === status)?._count || 0;
 
     res.json({
       success: true,
@@ -287,8 +562,11 @@ app.get('/users/stats', authenticateToken, async (req, res) => {
       data: {
         stats: {
           totalProducts: stats._count.products,
-          activeProducts,
-          soldProducts,
+          draftProducts: countByStatus('DRAFT'),
+          activeProducts: countByStatus('ACTIVE'),
+          reservedProducts: countByStatus('RESERVED'),
+          soldProducts: countByStatus('SOLD'),
+          expiredProducts: countByStatus('EXPIRED'),
           wishlistItems: stats._count.wishlists,
           messagesSent: stats._count.sentMessages,
           messagesReceived: stats._count.receivedMessages
@@ -306,6 +584,907 @@ app.get('/users/stats', authenticateToken, async (req, res) => {
   }
 });
 
+// Block list routes
+app.get('/users/blocks', authenticateToken, async (req, res) => {
+  try {
+    const blocks = await prisma.userBlock.findMany({
+      where: { blockerId: req.userId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        blocked: {
+          select: { id: true, firstName: true, lastName: true, college: true }
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Blocked users retrieved successfully',
+      data: { blocks }
+    });
+
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve blocked users',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/users/blocks/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (userId === req.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot block yourself'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const block = await prisma.userBlock.create({
+      data: {
+        blockerId: req.userId,
+        blockedId: userId
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'User blocked',
+      data: { block }
+    });
+
+  } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'User is already blocked'
+      });
+    }
+
+    console.error('Block user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to block user',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/users/blocks/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { count } = await prisma.userBlock.deleteMany({
+      where: {
+        blockerId: req.userId,
+        blockedId: req.params.userId
+      }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'User is not blocked'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'User unblocked'
+    });
+
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unblock user',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Report routes
+// Find who is responsible for a reported product, user or message. Users
+// can only report messages from their own conversations.
+const findReportTarget = async (targetType, targetId, reporterId) => {
+  if (targetType === 'PRODUCT') {
+    const product = await prisma.product.findUnique({
+      where: { id: targetId },
+      select: { id: true, sellerId: true }
+    });
+    return product && { reportedUserId: product.sellerId, productId: product.id };
+  }
+
+  if (targetType === 'MESSAGE') {
+    const message = await prisma.message.findFirst({
+      where: {
+        id: targetId,
+        OR: [
+          { senderId: reporterId },
+          { receiverId: reporterId }
+        ]
+      },
+      select: { id: true, senderId: true }
+    });
+    return message && { reportedUserId: message.senderId, messageId: message.id };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: targetId },
+    select: { id: true }
+  });
+  return user && { reportedUserId: user.id };
+};
+
+app.post('/reports', authenticateToken, async (req, res) => {
+  try {
+    const { error, value } = reportSchemas.create.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { targetType, targetId, reason, details } = value;
+
+    const target = await findReportTarget(targetType, targetId, req.userId);
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: `${targetType.charAt(0)}${targetType.slice(1).toLowerCase()} not found`
+      });
+    }
+
+    if (target.reportedUserId === req.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot report yourself'
+      });
+    }
+
+    // One open report per reporter and target
+    const existingReport = await prisma.report.findFirst({
+      where: {
+        reporterId: req.userId,
+        targetType,
+        status: 'OPEN',
+        reportedUserId: target.reportedUserId,
+        productId: target.productId || null,
+        messageId: target.messageId || null
+      },
+      select: { id: true }
+    });
+
+    if (existingReport) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reported this'
+      });
+    }
+
+    const report = await prisma.report.create({
+      data: {
+        reporterId: req.userId,
+        targetType,
+        reason,
+        details: details || null,
+        ...target
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Thanks, our moderators will review your report',
+      data: { report }
+    });
+
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit report',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Admin moderation routes
+const resolveOpenReports = (where, adminId, resolution) => prisma.report.updateMany({
+  where: { ...where, status: 'OPEN' },
+  data: {
+    status: 'RESOLVED',
+    resolution,
+    resolvedById: adminId,
+    resolvedAt: new Date()
+  }
+});
+
+const clearProductCache = async (product) => {
+  await redisUtils.del(`product:${product.id}`);
+  await redisUtils.del('products:recent');
+  await redisUtils.del(`products:category:${product.category}`);
+  await invalidateSearchCache();
+};
+
+app.get('/admin/reports', authenticateToken, requireAdmin, validate(reportSchemas.list, 'query'), async (req, res) => {
+  try {
+    const { status, targetType, page, limit } = req.query;
+
+    const skip = (page - 1) * limit;
+    const take = limit;
+
+    const where = {};
+    if (status !== 'all') {
+      where.status = status;
+    }
+    if (targetType) {
+      where.targetType = targetType;
+    }
+
+    const userSelect = {
+      select: { id: true, firstName: true, lastName: true, email: true }
+    };
+
+    const [reports, totalCount] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          reporter: userSelect,
+          reportedUser: {
+            select: { id: true, firstName: true, lastName: true, email: true, isSuspended: true }
+          },
+          resolvedBy: userSelect,
+          product: {
+            select: { id: true, title: true, status: true, images: true }
+          },
+          message: {
+            select: { id: true, content: true, createdAt: true }
+          }
+        }
+      }),
+      prisma.report.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Reports retrieved successfully',
+      data: {
+        reports,
+        pagination: {
+          page,
+          limit: take,
+          total: totalCount,
+          pages: Math.ceil(totalCount / take)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve reports',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.patch('/admin/reports/:reportId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+    const { error, value } = reportSchemas.resolve.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingReport = await prisma.report.findUnique({
+      where: { id: reportId },
+      select: { id: true, status: true }
+    });
+
+    if (!existingReport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (existingReport.status !== 'OPEN') {
+      return res.status(409).json({
+        success: false,
+        message: 'Report has already been closed'
+      });
+    }
+
+    const report = await prisma.report.update({
+      where: { id: reportId },
+      data: {
+        status: value.status,
+        resolution: value.resolution || null,
+        resolvedById: req.userId,
+        resolvedAt: new Date()
+      }
+    });
+
+    await notifyUsers([report.reporterId], {
+      type: 'MODERATION',
+      title: `Report ${value.status.toLowerCase()}`,
+      body: value.resolution
+        ? `A moderator reviewed your report: ${value.resolution}`
+        : 'A moderator reviewed your report. Thanks for helping keep Stash It safe.',
+      data: { reportId: report.id, status: report.status }
+    });
+
+    res.json({
+      success: true,
+      message: `Report ${value.status.toLowerCase()}`,
+      data: { report }
+    });
+
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update report',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Hiding a listing takes it out of every listing and search, and closes the
+// open reports about it. The status it had is kept so a restore can put it
+// back; its reservation is kept for the same reason.
+app.post('/admin/products/:productId/hide', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { error, value } = reportSchemas.moderationAction.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingProduct = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, status: true }
+    });
+
+    if (!existingProduct) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (!canTransition(existingProduct.status, PRODUCT_STATUS.REMOVED)) {
+      return res.status(409).json({
+        success: false,
+        message: 'This product has already been removed'
+      });
+    }
+
+    const product = await prisma.product.update({
+      where: { id: productId },
+      data: {
+        status: PRODUCT_STATUS.REMOVED,
+        statusBeforeHidden: existingProduct.status
+      }
+    });
+
+    await clearProductCache(product);
+    const { count: resolvedReports } = await resolveOpenReports(
+      { productId },
+      req.userId,
+      value.reason || 'Listing hidden by a moderator'
+    );
+
+    await notifyUsers([product.sellerId], {
+      type: 'MODERATION',
+      title: 'Listing removed',
+      body: value.reason
+        ? `${product.title} was removed by a moderator: ${value.reason}`
+        : `${product.title} was removed by a moderator`,
+      data: { productId: product.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Product hidden',
+      data: { product, resolvedReports }
+    });
+
+  } catch (error) {
+    console.error('Hide product error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to hide product',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/admin/products/:productId/restore', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const existingProduct = await prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        id: true,
+        status: true,
+        statusBeforeHidden: true,
+        reservedForId: true,
+        reservedUntil: true
+      }
+    });
+
+    if (!existingProduct) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    // Listings their seller removed stay removed
+    if (existingProduct.status !== PRODUCT_STATUS.REMOVED || !existingProduct.statusBeforeHidden) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only products hidden by a moderator can be restored'
+      });
+    }
+
+    const product = await prisma.product.update({
+      where: { id: productId },
+      data: {
+        ...getStatusChangeData(existingProduct.statusBeforeHidden, existingProduct),
+        statusBeforeHidden: null
+      }
+    });
+
+    await clearProductCache(product);
+
+    await notifyUsers([product.sellerId], {
+      type: 'MODERATION',
+      title: 'Listing restored',
+      body: `${product.title} is visible again`,
+      data: { productId: product.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Product restored',
+      data: { product }
+    });
+
+  } catch (error) {
+    console.error('Restore product error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore product',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Suspending a user blocks sign in, revokes every session (blacklisting
+// their access tokens) and closes the open reports about them
+app.post('/admin/users/:userId/suspend', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { error, value } = reportSchemas.moderationAction.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true }
+    });
+
+    if (!existingUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (existingUser.role === 'ADMIN') {
+      return res.status(400).json({
+        success: false,
+        message: 'Admins cannot be suspended'
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isSuspended: true,
+        suspendedAt: new Date(),
+        suspensionReason: value.reason || null
+      },
+      select: { id: true, firstName: true, lastName: true, isSuspended: true, suspendedAt: true, suspensionReason: true }
+    });
+
+    const revokedSessions = await revokeAllSessions(userId);
+    // Messaging instances disconnect the user's open sockets
+    await publishEvent(CHANNELS.USERS, USER_EVENTS.SUSPENDED, { userId });
+    const { count: resolvedReports } = await resolveOpenReports(
+      { reportedUserId: userId },
+      req.userId,
+      value.reason || 'User suspended'
+    );
+
+    res.json({
+      success: true,
+      message: 'User suspended',
+      data: { user, revokedSessions, resolvedReports }
+    });
+
+  } catch (error) {
+    console.error('Suspend user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to suspend user',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/admin/users/:userId/unsuspend', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isSuspended: false,
+        suspendedAt: null,
+        suspensionReason: null
+      },
+      select: { id: true, firstName: true, lastName: true, isSuspended: true }
+    });
+
+    await notifyUsers([user.id], {
+      type: 'MODERATION',
+      title: 'Account reinstated',
+      body: 'Your account suspension has been lifted'
+    });
+
+    res.json({
+      success: true,
+      message: 'Suspension lifted',
+      data: { user }
+    });
+
+  } catch (error) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    console.error('Unsuspend user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to lift suspension',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// College routes
+const collegeSelect = {
+  id: true,
+  name: true,
+  domains: true,
+  city: true,
+  state: true,
+  country: true,
+  isActive: true
+};
+
+app.get('/colleges', async (req, res) => {
+  try {
+    const { search, email, includeInactive } = req.query;
+
+    // Look up the college an email address belongs to (used by the
+    // registration form)
+    if (email) {
+      const college = await findCollegeByEmail(String(email));
+
+      return res.json({
+        success: true,
+        message: college ? 'College found' : 'No college matches this email',
+        data: {
+          college: college && {
+            id: college.id,
+            name: college.name,
+            city: college.city,
+            state: college.state,
+            country: college.country
+          }
+        }
+      });
+    }
+
+    const cacheable = !search && includeInactive !== 'true';
+    if (cacheable) {
+      const cached = await redisUtils.get('colleges:active');
+      if (cached) {
+        return res.json({
+          success: true,
+          message: 'Colleges retrieved successfully',
+          data: { colleges: cached }
+        });
+      }
+    }
+
+    const colleges = await prisma.college.findMany({
+      where: {
+        ...(includeInactive !== 'true' && { isActive: true }),
+        ...(search && { name: { contains: search, mode: 'insensitive' } })
+      },
+      select: collegeSelect,
+      orderBy: { name: 'asc' }
+    });
+
+    if (cacheable) {
+      await redisUtils.setEx('colleges:active', colleges, 3600);
+    }
+
+    res.json({
+      success: true,
+      message: 'Colleges retrieved successfully',
+      data: { colleges }
+    });
+
+  } catch (error) {
+    console.error('Get colleges error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve colleges',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/colleges/:collegeId', async (req, res) => {
+  try {
+    const college = await prisma.college.findUnique({
+      where: { id: req.params.collegeId },
+      select: {
+        ...collegeSelect,
+        _count: {
+          select: { users: true }
+        }
+      }
+    });
+
+    if (!college) {
+      return res.status(404).json({
+        success: false,
+        message: 'College not found'
+      });
+    }
+
+    const { _count, ...collegeData } = college;
+
+    res.json({
+      success: true,
+      message: 'College retrieved successfully',
+      data: {
+        college: {
+          ...collegeData,
+          usersCount: _count.users
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get college error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve college',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/colleges', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { error, value } = collegeSchemas.create.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const conflicts = await findConflictingDomains(value.domains);
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Domains already belong to another college: ${conflicts.join(', ')}`
+      });
+    }
+
+    const college = await prisma.college.create({
+      data: value,
+      select: collegeSelect
+    });
+
+    await syncCollegeUsers(college);
+    // Search filters listings by their seller's college name
+    await invalidateSearchCache();
+    await redisUtils.del('colleges:active');
+
+    res.status(201).json({
+      success: true,
+      message: 'College created successfully',
+      data: { college }
+    });
+
+  } catch (error) {
+    console.error('Create college error:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'A college with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create college',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.put('/colleges/:collegeId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { collegeId } = req.params;
+
+    const { error, value } = collegeSchemas.update.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingCollege = await prisma.college.findUnique({
+      where: { id: collegeId }
+    });
+
+    if (!existingCollege) {
+      return res.status(404).json({
+        success: false,
+        message: 'College not found'
+      });
+    }
+
+    if (value.domains) {
+      const conflicts = await findConflictingDomains(value.domains, collegeId);
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `Domains already belong to another college: ${conflicts.join(', ')}`
+        });
+      }
+    }
+
+    const college = await prisma.college.update({
+      where: { id: collegeId },
+      data: value,
+      select: collegeSelect
+    });
+
+    await syncCollegeUsers(college);
+    await invalidateSearchCache();
+    await redisUtils.del('colleges:active');
+
+    res.json({
+      success: true,
+      message: 'College updated successfully',
+      data: { college }
+    });
+
+  } catch (error) {
+    console.error('Update college error:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'A college with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update college',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/colleges/:collegeId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { collegeId } = req.params;
+
+    const college = await prisma.college.findUnique({
+      where: { id: collegeId },
+      select: {
+        id: true,
+        _count: {
+          select: { users: true }
+        }
+      }
+    });
+
+    if (!college) {
+      return res.status(404).json({
+        success: false,
+        message: 'College not found'
+      });
+    }
+
+    if (college._count.users > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'College has registered users; deactivate it instead'
+      });
+    }
+
+    await prisma.college.delete({
+      where: { id: collegeId }
+    });
+    await redisUtils.del('colleges:active');
+
+    res.json({
+      success: true,
+      message: 'College deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete college error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete college',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/users/health', async (req, res) => {
   try {
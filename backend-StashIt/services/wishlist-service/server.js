@@ -0,0 +1,427 @@
+const express = require('express');
+const cors = require('cors');
+const helmet = require('helmet');
+const { prisma, connectDatabase, healthCheck } = require('../../config/database');
+const { redis, connectRedis } = require('../../config/redis');
+const { authenticateToken } = require('../../shared/middleware/auth');
+const { CHANNELS, PRODUCT_EVENTS, subscribe } = require('../../shared/utils/events');
+const { claimEvent } = require('../../shared/utils/locks');
+const { notifyUsers } = require('../../shared/utils/notifications');
+require('dotenv').config();
+
+const app = express();
+const PORT = process.env.WISHLIST_SERVICE_PORT || 3006;
+
+// Middleware
+app.use(helmet());
+app.use(cors());
+app.use(express.json());
+
+const productInclude = {
+  product: {
+    include: {
+      seller: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          college: true
+        }
+      }
+    }
+  }
+};
+
+// Utility functions
+const formatWishlistItem = (item) => {
+  const currentPrice = parseFloat(item.product.price);
+  const priceAtSave = parseFloat(item.priceAtSave);
+
+  return {
+    ...item,
+    priceChange: parseFloat((currentPrice - priceAtSave).toFixed(2)),
+    priceDropped: currentPrice < priceAtSave
+  };
+};
+
+// Users watching a product: everyone who wishlisted it or has a
+// conversation about it, except the seller
+const getProductWatchers = async (productId, sellerId) => {
+  const [wishlistEntries, conversations] = await Promise.all([
+    prisma.wishlist.findMany({
+      where: { productId },
+      select: { userId: true }
+    }),
+    prisma.conversation.findMany({
+      where: { productId },
+      select: { user1Id: true, user2Id: true }
+    })
+  ]);
+
+  const watcherIds = new Set(wishlistEntries.map(entry => entry.userId));
+  conversations.forEach(conversation => {
+    watcherIds.add(conversation.user1Id);
+    watcherIds.add(conversation.user2Id);
+  });
+  watcherIds.delete(sellerId);
+
+  return [...watcherIds];
+};
+
+// Fan product change events out to watchers who haven't opted out
+const handleProductEvent = async ({ type, payload }) => {
+  switch (type) {
+    case PRODUCT_EVENTS.PRICE_DROPPED: {
+      const watcherIds = await getProductWatchers(payload.productId, payload.sellerId);
+      const recipients = await prisma.user.findMany({
+        where: { id: { in: watcherIds }, notifyPriceDrops: true },
+        select: { id: true }
+      });
+
+      await notifyUsers(recipients.map(user => user.id), {
+        type: 'PRICE_DROP',
+        title: 'Price drop',
+        body: `${payload.title} is now $${payload.newPrice} (was $${payload.oldPrice})`,
+        data: {
+          productId: payload.productId,
+          oldPrice: payload.oldPrice,
+          newPrice: payload.newPrice
+        }
+      });
+      break;
+    }
+
+    case PRODUCT_EVENTS.BACK_IN_STOCK: {
+      const watcherIds = await getProductWatchers(payload.productId, payload.sellerId);
+      const recipients = await prisma.user.findMany({
+        where: { id: { in: watcherIds }, notifyBackInStock: true },
+        select: { id: true }
+      });
+
+      await notifyUsers(recipients.map(user => user.id), {
+        type: 'BACK_IN_STOCK',
+        title: 'Back in stock',
+        body: `${payload.title} is available again for $${payload.price}`,
+        data: {
+          productId: payload.productId,
+          price: payload.price
+        }
+      });
+      break;
+    }
+
+    default:
+      break;
+  }
+};
+
+// Wishlist routes
+app.get('/wishlist', authenticateToken, async (req, res) => {
+  try {
+    const { page = 1, limit = 12 } = req.query;
+    const skip = (page - 1) * limit;
+    const take = parseInt(limit);
+
+    const where = { userId: req.userId };
+
+    const [items, totalCount] = await Promise.all([
+      prisma.wishlist.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: productInclude
+      }),
+      prisma.wishlist.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Wishlist retrieved successfully',
+      data: {
+        items: items.map(formatWishlistItem),
+        pagination: {
+          page: parseInt(page),
+          limit: take,
+          total: totalCount,
+          pages: Math.ceil(totalCount / take)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/wishlist/ids', authenticateToken, async (req, res) => {
+  try {
+    const items = await prisma.wishlist.findMany({
+      where: { userId: req.userId },
+      select: { productId: true }
+    });
+
+    res.json({
+      success: true,
+      message: 'Wishlist product ids retrieved successfully',
+      data: {
+        productIds: items.map(item => item.productId)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get wishlist ids error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/wishlist/count', authenticateToken, async (req, res) => {
+  try {
+    const count = await prisma.wishlist.count({
+      where: { userId: req.userId }
+    });
+
+    res.json({
+      success: true,
+      message: 'Wishlist count retrieved successfully',
+      data: { count }
+    });
+
+  } catch (error) {
+    console.error('Get wishlist count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve wishlist count',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/wishlist/check/:productId', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const item = await prisma.wishlist.findUnique({
+      where: {
+        userId_productId: {
+          userId: req.userId,
+          productId
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Wishlist status retrieved successfully',
+      data: {
+        inWishlist: !!item,
+        priceAtSave: item ? item.priceAtSave : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Check wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.post('/wishlist/:productId', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, sellerId: true, price: true }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (product.sellerId === req.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot add your own product to your wishlist'
+      });
+    }
+
+    const existingItem = await prisma.wishlist.findUnique({
+      where: {
+        userId_productId: {
+          userId: req.userId,
+          productId
+        }
+      },
+      include: productInclude
+    });
+
+    if (existingItem) {
+      return res.json({
+        success: true,
+        message: 'Product already in wishlist',
+        data: { item: formatWishlistItem(existingItem) }
+      });
+    }
+
+    const item = await prisma.wishlist.create({
+      data: {
+        userId: req.userId,
+        productId,
+        priceAtSave: product.price
+      },
+      include: productInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Product added to wishlist',
+      data: { item: formatWishlistItem(item) }
+    });
+
+  } catch (error) {
+    console.error('Add to wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add product to wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/wishlist/clear', authenticateToken, async (req, res) => {
+  try {
+    const { count } = await prisma.wishlist.deleteMany({
+      where: { userId: req.userId }
+    });
+
+    res.json({
+      success: true,
+      message: 'Wishlist cleared successfully',
+      data: { removed: count }
+    });
+
+  } catch (error) {
+    console.error('Clear wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to clear wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.delete('/wishlist/:productId', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const { count } = await prisma.wishlist.deleteMany({
+      where: {
+        userId: req.userId,
+        productId
+      }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in wishlist'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Product removed from wishlist'
+    });
+
+  } catch (error) {
+    console.error('Remove from wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove product from wishlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Health check endpoint
+app.get('/wishlist/health', async (req, res) => {
+  try {
+    const dbHealth = await healthCheck();
+    const redisHealth = await redis.ping();
+
+    res.json({
+      success: true,
+      message: 'Wishlist service is healthy',
+      data: {
+        service: 'wishlist-service',
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        database: dbHealth,
+        redis: redisHealth === 'PONG' ? 'connected' : 'disconnected'
+      }
+    });
+  } catch (error) {
+    res.status(503).json({
+      success: false,
+      message: 'Wishlist service is unhealthy',
+      error: error.message
+    });
+  }
+});
+
+// Error handling middleware
+app.use((error, req, res, next) => {
+  console.error('Wishlist service error:', error);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+    error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  });
+});
+
+// 404 handler
+app.use('*', (req, res) => {
+  res.status(404).json({
+    success: false,
+    message: 'Wishlist endpoint not found'
+  });
+});
+
+// Start server
+const startServer = async () => {
+  try {
+    await connectDatabase();
+    await connectRedis();
+    // Only one instance notifies for each event
+    await subscribe(CHANNELS.PRODUCTS, async (event) => {
+      if (await claimEvent('wishlist', event)) {
+        await handleProductEvent(event);
+      }
+    });
+
+    app.listen(PORT, () => {
+      console.log(`❤️ Wishlist service running on port ${PORT}`);
+    });
+  } catch (error) {
+    console.error('Failed to start wishlist service:', error);
+    process.exit(1);
+  }
+};
+
+startServer();
@@ -1,5 +1,16 @@
 const jwt = require('jsonwebtoken');
 const { redisUtils } = require('../../config/redis');
+const { prisma } = require('../../config/database');
+
+// Decode an access token. Only tokens issued for a login session (they carry
+// its sid) are accepted; anything signed for another purpose is rejected.
+const verifyAccessToken = (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+  if (!decoded.sid || decoded.purpose) {
+    throw new jwt.JsonWebTokenError('invalid token type');
+  }
+  return decoded;
+};
 
 // Verify JWT token middleware
 const verifyToken = async (req, res, next) => {
@@ -23,7 +34,7 @@ const verifyToken = async (req, res, next) => {
     }
 
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const decoded = verifyAccessToken(token);
     req.user = decoded;
     req.userId = decoded.userId; // Add userId for easier access
     next();
@@ -55,7 +66,7 @@ const optionalAuth = async (req, res, next) => {
     if (token) {
       const isBlacklisted = await redisUtils.exists(`blacklist:${token}`);
       if (!isBlacklisted) {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET);
+        const decoded = verifyAccessToken(token);
         req.user = decoded;
       }
     }
@@ -66,10 +77,68 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
+// Whether unverified users are blocked from posting listings and messaging
+const isEmailVerificationRequired = () => process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+// Whether the user may list and message: always, unless verification is
+// required and their email address isn't verified yet
+const isUserVerified = async (userId) => {
+  if (!isEmailVerificationRequired()) return true;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isVerified: true }
+  });
+
+  return Boolean(user?.isVerified);
+};
+
+// Require a verified email address (use after verifyToken)
+const requireVerified = async (req, res, next) => {
+  try {
+    if (!(await isUserVerified(req.userId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Please verify your email address first.'
+      });
+    }
+    next();
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: 'Verification check failed.'
+    });
+  }
+};
+
+// Require the ADMIN role (use after verifyToken). The role is read from the
+// database so a demotion takes effect immediately.
+const requireAdmin = async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { role: true, isSuspended: true }
+    });
+
+    if (!user || user.role !== 'ADMIN' || user.isSuspended) {
+      return res.status(403).json({
+        success: false,
+        message: 'Admin access required.'
+      });
+    }
+    next();
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: 'Admin check failed.'
+    });
+  }
+};
+
 // Generate JWT token
 const generateToken = (payload) => {
   return jwt.sign(payload, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m'
   });
 };
 
@@ -88,9 +157,14 @@ const blacklistToken = async (token) => {
 };
 
 module.exports = {
+  verifyAccessToken,
   verifyToken,
   authenticateToken: verifyToken, // Alias for consistency
   optionalAuth,
+  requireVerified,
+  isEmailVerificationRequired,
+  isUserVerified,
+  requireAdmin,
   generateToken,
   blacklistToken
 }; 
\ No newline at end of file
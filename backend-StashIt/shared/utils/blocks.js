@@ -0,0 +1,36 @@
+const { prisma } = require('../../config/database');
+
+// Whether either user has blocked the other
+const isBlockedBetween = async (userId, otherUserId) => {
+  const block = await prisma.userBlock.findFirst({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId }
+      ]
+    },
+    select: { id: true }
+  });
+
+  return Boolean(block);
+};
+
+// Users this user has blocked; with includeBlockers, also the users who have
+// blocked them
+const getBlockedUserIds = async (userId, { includeBlockers = false } = {}) => {
+  const blocks = await prisma.userBlock.findMany({
+    where: includeBlockers
+      ? { OR: [{ blockerId: userId }, { blockedId: userId }] }
+      : { blockerId: userId },
+    select: { blockerId: true, blockedId: true }
+  });
+
+  return [...new Set(blocks.map(block =>
+    block.blockerId === userId ? block.blockedId : block.blockerId
+  ))];
+};
+
+module.exports = {
+  isBlockedBetween,
+  getBlockedUserIds
+};
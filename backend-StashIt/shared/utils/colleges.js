@@ -0,0 +1,100 @@
+const { prisma } = require('../../config/database');
+
+// Lowercase a domain and strip a leading "@" or "."
+const normalizeDomain = (domain) => domain.trim().toLowerCase().replace(/^[@.]+/, '');
+
+// The email's domain and every parent domain, so a college registered with
+// "iit.ac.in" also matches "cse.iit.ac.in"
+const getDomainCandidates = (email) => {
+  const domain = normalizeDomain(email.split('@')[1] || '');
+  const parts = domain.split('.');
+
+  return parts
+    .map((_, index) => parts.slice(index).join('.'))
+    .filter(candidate => candidate.includes('.'));
+};
+
+// Find the active college an email address belongs to, preferring the most
+// specific matching domain
+const findCollegeByEmail = async (email) => {
+  const candidates = getDomainCandidates(email);
+  if (candidates.length === 0) return null;
+
+  const colleges = await prisma.college.findMany({
+    where: {
+      isActive: true,
+      domains: { hasSome: candidates }
+    }
+  });
+
+  const specificity = (college) => Math.max(
+    ...college.domains
+      .filter(domain => candidates.includes(domain))
+      .map(domain => domain.length)
+  );
+
+  return colleges.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+};
+
+// Domains already claimed by another college
+const findConflictingDomains = async (domains, excludeCollegeId) => {
+  const colleges = await prisma.college.findMany({
+    where: {
+      domains: { hasSome: domains },
+      ...(excludeCollegeId && { id: { not: excludeCollegeId } })
+    },
+    select: { domains: true }
+  });
+
+  return domains.filter(domain =>
+    colleges.some(college => college.domains.includes(domain))
+  );
+};
+
+// Attach users who registered before their college was added, and keep the
+// denormalized User.college name in sync
+const syncCollegeUsers = async (college) => {
+  await prisma.user.updateMany({
+    where: { collegeId: college.id },
+    data: { college: college.name }
+  });
+
+  if (college.domains.length === 0) return;
+
+  await prisma.user.updateMany({
+    where: {
+      collegeId: null,
+      OR: college.domains.flatMap(domain => [
+        { email: { endsWith: `@${domain}`, mode: 'insensitive' } },
+        { email: { endsWith: `.${domain}`, mode: 'insensitive' } }
+      ])
+    },
+    data: {
+      collegeId: college.id,
+      college: college.name
+    }
+  });
+};
+
+// Resolve the campus a listing query is scoped to: an explicit college name,
+// "all" for every campus, or by default the signed-in user's own college
+const resolveCollegeFilter = async (college, userId) => {
+  if (college === 'all') return undefined;
+  if (college) return college;
+  if (!userId) return undefined;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { college: true }
+  });
+
+  return user ? user.college : undefined;
+};
+
+module.exports = {
+  normalizeDomain,
+  findCollegeByEmail,
+  findConflictingDomains,
+  syncCollegeUsers,
+  resolveCollegeFilter
+};
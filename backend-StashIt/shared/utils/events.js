@@ -0,0 +1,62 @@
+const { client } = require('../../config/redis');
+
+// Redis pub/sub channels shared between services
+const CHANNELS = {
+  PRODUCTS: 'events:products',
+  NOTIFICATIONS: 'events:notifications',
+  USERS: 'events:users'
+};
+
+// Product event types
+const PRODUCT_EVENTS = {
+  CREATED: 'product.created',
+  PRICE_DROPPED: 'product.price_dropped',
+  BACK_IN_STOCK: 'product.back_in_stock'
+};
+
+// User event types
+const USER_EVENTS = {
+  SUSPENDED: 'user.suspended'
+};
+
+// Publish an event to a channel
+const publishEvent = async (channel, type, payload) => {
+  try {
+    await client.publish(channel, JSON.stringify({
+      type,
+      payload,
+      timestamp: new Date().toISOString()
+    }));
+  } catch (error) {
+    console.error(`Error publishing ${type} event:`, error);
+  }
+};
+
+// Subscribe to a channel on a dedicated connection (a subscribed
+// Redis connection cannot run regular commands)
+const subscribe = async (channel, handler) => {
+  const subscriber = client.duplicate();
+
+  subscriber.on('error', (err) => {
+    console.error('Redis subscriber error:', err);
+  });
+
+  await subscriber.connect();
+  await subscriber.subscribe(channel, async (message) => {
+    try {
+      await handler(JSON.parse(message));
+    } catch (error) {
+      console.error(`Error handling event on ${channel}:`, error);
+    }
+  });
+
+  return subscriber;
+};
+
+module.exports = {
+  CHANNELS,
+  PRODUCT_EVENTS,
+  USER_EVENTS,
+  publishEvent,
+  subscribe
+};
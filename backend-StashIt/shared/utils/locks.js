@@ -0,0 +1,40 @@
+const os = require('os');
+const crypto = require('crypto');
+const { redis } = require('../../config/redis');
+
+// Run a task on one instance at a time: whichever takes the lock runs it and
+// the others skip. The lock is left to expire after ttlMs instead of being
+// released, so a job scheduled every period by several instances runs once
+// per period when ttlMs is a little shorter than that period. Returns
+// whether this instance ran the task.
+const runExclusively = async (name, ttlMs, task) => {
+  const acquired = await redis.set(`lock:${name}`, `${os.hostname()}:${process.pid}`, {
+    NX: true,
+    PX: ttlMs
+  });
+  if (!acquired) return false;
+
+  await task();
+  return true;
+};
+
+// How long an event claim is kept; far longer than any pub/sub delivery
+const EVENT_CLAIM_TTL = 24 * 60 * 60 * 1000;
+
+// Every instance of a service receives each pub/sub event. Returns true for
+// the first instance of consumer to claim the event, which then handles it,
+// and false for the rest.
+const claimEvent = async (consumer, event) => {
+  const eventHash = crypto.createHash('sha256').update(JSON.stringify(event)).digest('hex');
+  const claimed = await redis.set(`event:${consumer}:${eventHash}`, `${os.hostname()}:${process.pid}`, {
+    NX: true,
+    PX: EVENT_CLAIM_TTL
+  });
+
+  return Boolean(claimed);
+};
+
+module.exports = {
+  runExclusively,
+  claimEvent
+};
@@ -0,0 +1,67 @@
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config();
+
+// Mail transports. Each transport is an object with an async
+// send({ from, to, subject, text, html }) method; register a new one
+// (e.g. SMTP or a provider SDK) with registerTransport and select it
+// with MAIL_TRANSPORT.
+const transports = {
+  // Logs the message to stdout
+  console: {
+    send: async (message) => {
+      console.log('📧 Outgoing email');
+      console.log(`  From: ${message.from}`);
+      console.log(`  To: ${message.to}`);
+      console.log(`  Subject: ${message.subject}`);
+      console.log(message.text);
+    }
+  },
+
+  // Writes each message as a JSON file into MAIL_FILE_DIR
+  file: {
+    send: async (message) => {
+      const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail');
+      await fs.promises.mkdir(dir, { recursive: true });
+
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filename = `${Date.now()}-${safeRecipient}.json`;
+      await fs.promises.writeFile(
+        path.join(dir, filename),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    }
+  }
+};
+
+const registerTransport = (name, transport) => {
+  if (!transport || typeof transport.send !== 'function') {
+    throw new Error(`Mail transport "${name}" must implement send()`);
+  }
+  transports[name] = transport;
+};
+
+const getTransport = () => {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+  return transport;
+};
+
+// Send an email through the configured transport
+const sendMail = async ({ to, subject, text, html }) => {
+  await getTransport().send({
+    from: process.env.MAIL_FROM || 'Stash It <no-reply@stashit.local>',
+    to,
+    subject,
+    text,
+    html
+  });
+};
+
+module.exports = {
+  registerTransport,
+  sendMail
+};
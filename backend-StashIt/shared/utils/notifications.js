@@ -0,0 +1,27 @@
+const { prisma } = require('../../config/database');
+const { CHANNELS, publishEvent } = require('./events');
+
+// Persist a notification for each user and publish it so the messaging
+// service can push it to any connected sockets
+const notifyUsers = async (userIds, { type, title, body, data }) => {
+  const uniqueUserIds = [...new Set(userIds)];
+  if (uniqueUserIds.length === 0) return [];
+
+  const notifications = await prisma.$transaction(
+    uniqueUserIds.map(userId => prisma.notification.create({
+      data: { userId, type, title, body, data }
+    }))
+  );
+
+  await Promise.all(
+    notifications.map(notification =>
+      publishEvent(CHANNELS.NOTIFICATIONS, 'notification.created', notification)
+    )
+  );
+
+  return notifications;
+};
+
+module.exports = {
+  notifyUsers
+};
@@ -0,0 +1,134 @@
+const os = require('os');
+const crypto = require('crypto');
+const { redis } = require('../../config/redis');
+
+// Presence is kept in Redis so every messaging instance sees the same state.
+// Each instance counts its own open socket connections per user (one per tab
+// or device) in presence:connections:<instance> and heartbeats into
+// presence:instances. Only instances that heartbeated recently count, so the
+// connections of an instance that crashed or was killed stop counting once
+// it goes quiet, and its hash expires. presence:last_seen records when each
+// user's last connection closed.
+const CONNECTIONS_KEY = 'presence:connections';
+const INSTANCES_KEY = 'presence:instances';
+const LAST_SEEN_KEY = 'presence:last_seen';
+const HEARTBEAT_INTERVAL = 10 * 1000;
+// An instance that hasn't heartbeated for this long is considered gone
+const INSTANCE_TTL = 30 * 1000;
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+const INSTANCE_CONNECTIONS_KEY = `${CONNECTIONS_KEY}:${INSTANCE_ID}`;
+
+// Count the connection on this instance and return the user's total across
+// KEYS[1] (this instance) and the other live instances in KEYS[2..]
+const CONNECT_SCRIPT = `
+redis.call('HINCRBY', KEYS[1], ARGV[1], 1)
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+local total = 0
+for _, key in ipairs(KEYS) do
+  total = total + tonumber(redis.call('HGET', key, ARGV[1]) or '0')
+end
+return total
+`;
+
+// Drop the connection and, if it was the user's last on any live instance,
+// record when they left in the same step so a tab opening meanwhile can't be
+// counted as offline. KEYS[1] is this instance, KEYS[2] the last seen hash
+// and KEYS[3..] the other live instances.
+const DISCONNECT_SCRIPT = `
+local count = redis.call('HINCRBY', KEYS[1], ARGV[1], -1)
+if count <= 0 then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+  count = 0
+end
+for index = 3, #KEYS do
+  count = count + tonumber(redis.call('HGET', KEYS[index], ARGV[1]) or '0')
+end
+if count == 0 then
+  redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+end
+return count
+`;
+
+// Connection hashes of the instances that heartbeated within INSTANCE_TTL,
+// other than this one
+const getOtherInstanceKeys = async () => {
+  const instanceIds = await redis.zRangeByScore(INSTANCES_KEY, Date.now() - INSTANCE_TTL, '+inf');
+  return instanceIds
+    .filter(instanceId => instanceId !== INSTANCE_ID)
+    .map(instanceId => `${CONNECTIONS_KEY}:${instanceId}`);
+};
+
+const heartbeat = async () => {
+  const now = Date.now();
+  await redis.zAdd(INSTANCES_KEY, { score: now, value: INSTANCE_ID });
+  await redis.pExpire(INSTANCE_CONNECTIONS_KEY, INSTANCE_TTL);
+  await redis.zRemRangeByScore(INSTANCES_KEY, 0, now - INSTANCE_TTL);
+};
+
+// Call once the Redis client is connected; keeps this instance's
+// connections counting for as long as the process runs
+const startPresenceHeartbeat = async () => {
+  await heartbeat();
+  setInterval(() => {
+    heartbeat().catch(error => console.error('Presence heartbeat error:', error));
+  }, HEARTBEAT_INTERVAL);
+};
+
+// Returns the user's open connection count, 1 when they just came online
+const userConnected = async (userId) => {
+  const otherKeys = await getOtherInstanceKeys();
+  return redis.eval(CONNECT_SCRIPT, {
+    keys: [INSTANCE_CONNECTIONS_KEY, ...otherKeys],
+    arguments: [userId, String(INSTANCE_TTL)]
+  });
+};
+
+// Returns the user's presence after the connection closed
+const userDisconnected = async (userId) => {
+  const lastSeenAt = new Date().toISOString();
+  const otherKeys = await getOtherInstanceKeys();
+  const count = await redis.eval(DISCONNECT_SCRIPT, {
+    keys: [INSTANCE_CONNECTIONS_KEY, LAST_SEEN_KEY, ...otherKeys],
+    arguments: [userId, lastSeenAt]
+  });
+
+  return count > 0
+    ? { isOnline: true, lastSeenAt: null }
+    : { isOnline: false, lastSeenAt };
+};
+
+const getLiveInstanceKeys = async () => [INSTANCE_CONNECTIONS_KEY, ...await getOtherInstanceKeys()];
+
+// Presence of each user, keyed by id
+const getPresence = async (userIds) => {
+  if (userIds.length === 0) return {};
+
+  const instanceKeys = await getLiveInstanceKeys();
+  const [lastSeen, ...instanceCounts] = await Promise.all([
+    redis.hmGet(LAST_SEEN_KEY, userIds),
+    ...instanceKeys.map(key => redis.hmGet(key, userIds))
+  ]);
+
+  return Object.fromEntries(userIds.map((userId, index) => {
+    const isOnline = instanceCounts.some(counts => parseInt(counts[index] || '0') > 0);
+    return [userId, {
+      isOnline,
+      lastSeenAt: isOnline ? null : lastSeen[index] || null
+    }];
+  }));
+};
+
+const getOnlineUserIds = async () => {
+  const instanceKeys = await getLiveInstanceKeys();
+  const userIds = await Promise.all(instanceKeys.map(key => redis.hKeys(key)));
+  return [...new Set(userIds.flat())];
+};
+
+module.exports = {
+  startPresenceHeartbeat,
+  userConnected,
+  userDisconnected,
+  getPresence,
+  getOnlineUserIds
+};
@@ -0,0 +1,65 @@
+// Product lifecycle states and the moves a listing can make between them
+const PRODUCT_STATUS = {
+  DRAFT: 'DRAFT',
+  ACTIVE: 'ACTIVE',
+  RESERVED: 'RESERVED',
+  SOLD: 'SOLD',
+  EXPIRED: 'EXPIRED',
+  REMOVED: 'REMOVED'
+};
+
+const STATUS_TRANSITIONS = {
+  DRAFT: ['ACTIVE', 'REMOVED'],
+  ACTIVE: ['RESERVED', 'SOLD', 'EXPIRED', 'REMOVED'],
+  RESERVED: ['ACTIVE', 'SOLD', 'REMOVED'],
+  SOLD: ['ACTIVE', 'REMOVED'],
+  EXPIRED: ['ACTIVE', 'REMOVED'],
+  REMOVED: []
+};
+
+// Statuses only the seller can see
+const PRIVATE_STATUSES = ['DRAFT', 'REMOVED'];
+
+// Statuses a seller can still edit a listing in; sold and removed listings
+// are final
+const EDITABLE_STATUSES = ['DRAFT', 'ACTIVE', 'RESERVED', 'EXPIRED'];
+
+const RESERVATION_TTL = parseInt(process.env.RESERVATION_HOURS || '48') * 60 * 60 * 1000;
+const LISTING_TTL = parseInt(process.env.LISTING_TTL_DAYS || '60') * 24 * 60 * 60 * 1000;
+
+const canTransition = (from, to) => (STATUS_TRANSITIONS[from] || []).includes(to);
+
+const getReservationExpiry = () => new Date(Date.now() + RESERVATION_TTL);
+
+const getListingExpiry = () => new Date(Date.now() + LISTING_TTL);
+
+// Fields to write alongside a status change: going live restarts the listing
+// clock and anything other than a reservation clears the reserved buyer
+const getStatusChangeData = (status, reservation = {}) => {
+  const data = { status };
+
+  if (status === PRODUCT_STATUS.ACTIVE) {
+    data.expiresAt = getListingExpiry();
+  }
+
+  if (status === PRODUCT_STATUS.RESERVED) {
+    data.reservedForId = reservation.reservedForId || null;
+    data.reservedUntil = reservation.reservedUntil || getReservationExpiry();
+  } else {
+    data.reservedForId = null;
+    data.reservedUntil = null;
+  }
+
+  return data;
+};
+
+module.exports = {
+  PRODUCT_STATUS,
+  STATUS_TRANSITIONS,
+  PRIVATE_STATUSES,
+  EDITABLE_STATUSES,
+  canTransition,
+  getReservationExpiry,
+  getListingExpiry,
+  getStatusChangeData
+};
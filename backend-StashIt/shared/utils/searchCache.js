@@ -0,0 +1,83 @@
+const { redis } = require('../../config/redis');
+
+// Search-service responses are cached under a versioned namespace,
+// search:v<version>:<name>. Product writes bump the version so every cached
+// search misses at once; entries under older versions are never read again
+// and expire on their own TTL.
+const VERSION_KEY = 'search:cache:version';
+// Hit and miss counters per cache, as <cache>:hits and <cache>:misses fields
+const STATS_KEY = 'search:cache:stats';
+
+const getCacheKey = async (name) => {
+  const version = await redis.get(VERSION_KEY) || '0';
+  return `search:v${version}:${name}`;
+};
+
+// Call after any write that can change what search returns: listings
+// created, edited, deleted, or moved in or out of ACTIVE
+const invalidateSearchCache = async () => {
+  try {
+    await redis.incr(VERSION_KEY);
+  } catch (error) {
+    console.error('Search cache invalidation error:', error);
+  }
+};
+
+// Cached value of name, or the result of load stored for ttl seconds.
+// cache groups entries for the hit-rate metric, e.g. 'results' or 'categories'.
+// Returns { value, cached }.
+const withSearchCache = async (cache, name, ttl, load) => {
+  const cacheKey = await getCacheKey(name);
+
+  const cachedValue = await redis.get(cacheKey);
+  if (cachedValue) {
+    await redis.hIncrBy(STATS_KEY, `${cache}:hits`, 1);
+    return { value: JSON.parse(cachedValue), cached: true };
+  }
+
+  await redis.hIncrBy(STATS_KEY, `${cache}:misses`, 1);
+  const value = await load();
+  await redis.setEx(cacheKey, ttl, JSON.stringify(value));
+
+  return { value, cached: false };
+};
+
+const hitRate = (hits, misses) => (hits + misses > 0 ? hits / (hits + misses) : null);
+
+// Hits, misses and hit rate for each cache and overall since the counters
+// were created, plus the current namespace version
+const getSearchCacheStats = async () => {
+  const [counters, version] = await Promise.all([
+    redis.hGetAll(STATS_KEY),
+    redis.get(VERSION_KEY)
+  ]);
+
+  const caches = {};
+  for (const [field, count] of Object.entries(counters)) {
+    const [cache, outcome] = field.split(':');
+    caches[cache] = caches[cache] || { hits: 0, misses: 0 };
+    caches[cache][outcome] = parseInt(count);
+  }
+
+  let hits = 0;
+  let misses = 0;
+  for (const stats of Object.values(caches)) {
+    stats.hitRate = hitRate(stats.hits, stats.misses);
+    hits += stats.hits;
+    misses += stats.misses;
+  }
+
+  return {
+    version: parseInt(version || '0'),
+    hits,
+    misses,
+    hitRate: hitRate(hits, misses),
+    caches
+  };
+};
+
+module.exports = {
+  invalidateSearchCache,
+  withSearchCache,
+  getSearchCacheStats
+};
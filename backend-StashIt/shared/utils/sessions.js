@@ -0,0 +1,39 @@
+const { redis, redisUtils } = require('../../config/redis');
+const { blacklistToken } = require('../middleware/auth');
+
+// Sessions are created and rotated by the auth service; these helpers let any
+// service list or end them.
+
+const revokeSession = async (session) => {
+  await blacklistToken(session.accessToken);
+  await redisUtils.del(`session:${session.id}`);
+  await redis.sRem(`sessions:${session.userId}`, session.id);
+};
+
+const getUserSessions = async (userId) => {
+  const sessionIds = await redis.sMembers(`sessions:${userId}`);
+  const sessions = await Promise.all(
+    sessionIds.map(sessionId => redisUtils.get(`session:${sessionId}`))
+  );
+
+  // Drop ids of sessions that have expired
+  const expiredIds = sessionIds.filter((_, index) => !sessions[index]);
+  if (expiredIds.length > 0) {
+    await redis.sRem(`sessions:${userId}`, expiredIds);
+  }
+
+  return sessions.filter(Boolean);
+};
+
+// Sign a user out everywhere, blacklisting every access token still in use
+const revokeAllSessions = async (userId) => {
+  const sessions = await getUserSessions(userId);
+  await Promise.all(sessions.map(revokeSession));
+  return sessions.length;
+};
+
+module.exports = {
+  revokeSession,
+  getUserSessions,
+  revokeAllSessions
+};
@@ -1,4 +1,15 @@
 const Joi = require('joi');
+const { PRODUCT_STATUS } = require('./productStatus');
+
+// Comma-separated product statuses, such as "active,reserved", as an array
+// of upper-case statuses
+const productStatusList = (value, helpers) => {
+  const statuses = value.split(',').map(status => status.trim().toUpperCase());
+  if (statuses.some(status => !Object.values(PRODUCT_STATUS).includes(status))) {
+    return helpers.message(`"status" must be a comma-separated list of ${Object.values(PRODUCT_STATUS).join(', ')}`);
+  }
+  return statuses;
+};
 
 // User validation schemas
 const userSchemas = {
@@ -7,7 +18,6 @@ const userSchemas = {
     password: Joi.string().min(6).required(),
     firstName: Joi.string().min(2).max(50).required(),
     lastName: Joi.string().min(2).max(50).required(),
-    college: Joi.string().min(2).max(255).required(),
     phone: Joi.string().pattern(/^[0-9]{10}$/).optional()
   }),
 
@@ -16,11 +26,44 @@ const userSchemas = {
     password: Joi.string().required()
   }),
 
+  refreshToken: Joi.object({
+    refreshToken: Joi.string().required()
+  }),
+
+  verifyEmail: Joi.object({
+    token: Joi.string().optional(),
+    email: Joi.string().email().optional(),
+    code: Joi.string().pattern(/^[0-9]{6}$/).optional()
+  }).xor('token', 'code').with('code', 'email'),
+
+  forgotPassword: Joi.object({
+    email: Joi.string().email().required()
+  }),
+
+  resetPassword: Joi.object({
+    token: Joi.string().required(),
+    password: Joi.string().min(6).required()
+  }),
+
+  changePassword: Joi.object({
+    currentPassword: Joi.string().required(),
+    newPassword: Joi.string().min(6).required()
+  }),
+
   updateProfile: Joi.object({
     firstName: Joi.string().min(2).max(50).optional(),
     lastName: Joi.string().min(2).max(50).optional(),
-    college: Joi.string().min(2).max(255).optional(),
     phone: Joi.string().pattern(/^[0-9]{10}$/).optional()
+  }),
+
+  notificationPreferences: Joi.object({
+    notifyPriceDrops: Joi.boolean().optional(),
+    notifyBackInStock: Joi.boolean().optional()
+  }).min(1),
+
+  createReview: Joi.object({
+    rating: Joi.number().integer().min(1).max(5).required(),
+    comment: Joi.string().trim().max(1000).allow('').optional()
   })
 };
 
@@ -39,7 +82,8 @@ const productSchemas = {
       'SPORTS', 
       'FOOD',
       'OTHER'
-    ).required()
+    ).required(),
+    status: Joi.string().valid('DRAFT', 'ACTIVE').default('ACTIVE')
   }),
 
   update: Joi.object({
@@ -55,40 +99,248 @@ const productSchemas = {
       'SPORTS', 
       'FOOD',
       'OTHER'
-    ).optional(),
-    isAvailable: Joi.boolean().optional()
+    ).optional()
+  }),
+
+  listByUser: Joi.object({
+    status: Joi.string().custom(productStatusList).optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(50).default(12)
+  }),
+
+  updateStatus: Joi.object({
+    status: Joi.string().valid('ACTIVE', 'RESERVED', 'SOLD', 'REMOVED').required(),
+    reservedForId: Joi.string().when('status', { is: 'RESERVED', then: Joi.optional(), otherwise: Joi.forbidden() }),
+    reservedUntil: Joi.date().greater('now').when('status', { is: 'RESERVED', then: Joi.optional(), otherwise: Joi.forbidden() }),
+    buyerId: Joi.string().when('status', { is: 'SOLD', then: Joi.optional(), otherwise: Joi.forbidden() }),
+    salePrice: Joi.number().positive().precision(2).when('status', { is: 'SOLD', then: Joi.optional(), otherwise: Joi.forbidden() })
   }),
 
   search: Joi.object({
-    query: Joi.string().max(255).optional(),
-    category: Joi.string().optional(),
+    query: Joi.string().trim().max(255).allow('').default(''),
+    category: Joi.string().valid(
+      'BOOKS', 
+      'ELECTRONICS', 
+      'FURNITURE', 
+      'CLOTHING', 
+      'SPORTS', 
+      'FOOD',
+      'OTHER'
+    ).optional(),
+    condition: Joi.string().valid('NEW', 'LIKE_NEW', 'GOOD', 'FAIR', 'POOR').optional(),
+    college: Joi.string().trim().max(255).optional(),
     minPrice: Joi.number().min(0).optional(),
     maxPrice: Joi.number().positive().optional(),
-    condition: Joi.string().valid('new', 'like_new', 'good', 'fair', 'poor').optional(),
     page: Joi.number().integer().min(1).default(1),
-    limit: Joi.number().integer().min(1).max(50).default(10),
-    sortBy: Joi.string().valid('price', 'created_at', 'title').default('created_at'),
-    sortOrder: Joi.string().valid('asc', 'desc').default('desc')
+    limit: Joi.number().integer().min(1).max(50).default(12),
+    sortBy: Joi.string().valid('relevance', 'createdAt', 'price', 'title').default('createdAt'),
+    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+    hideBlocked: Joi.boolean().default(true),
+    facets: Joi.boolean().default(false)
+  })
+};
+
+// Search validation schemas
+const searchCategory = Joi.string().valid(
+  'BOOKS', 
+  'ELECTRONICS', 
+  'FURNITURE', 
+  'CLOTHING', 
+  'SPORTS', 
+  'FOOD',
+  'OTHER'
+);
+const searchCondition = Joi.string().valid('NEW', 'LIKE_NEW', 'GOOD', 'FAIR', 'POOR');
+
+const savedSearchFilters = Joi.object({
+  query: Joi.string().trim().max(255).allow('').optional(),
+  category: searchCategory.optional(),
+  categories: Joi.array().items(searchCategory).unique().min(1).optional(),
+  condition: searchCondition.optional(),
+  conditions: Joi.array().items(searchCondition).unique().min(1).optional(),
+  college: Joi.string().trim().max(255).optional(),
+  minPrice: Joi.number().min(0).optional(),
+  maxPrice: Joi.number().positive().optional(),
+  hasImages: Joi.boolean().optional()
+});
+
+const searchSchemas = {
+  saveSearch: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    filters: savedSearchFilters.required(),
+    notify: Joi.boolean().default(true)
+  }),
+
+  updateSavedSearch: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    filters: savedSearchFilters.optional(),
+    notify: Joi.boolean().optional()
+  }).min(1),
+
+  // Body of POST /search/advanced. Every list matches any of its values;
+  // leaving colleges out searches the signed-in user's campus and an empty
+  // list searches every campus.
+  advanced: Joi.object({
+    query: Joi.string().trim().max(255).allow('').default(''),
+    categories: Joi.array().items(searchCategory).unique().optional(),
+    conditions: Joi.array().items(searchCondition).unique().optional(),
+    colleges: Joi.array().items(Joi.string().trim().max(255)).unique().max(20).optional(),
+    minPrice: Joi.number().min(0).optional(),
+    maxPrice: Joi.number().positive().when('minPrice', { is: Joi.exist(), then: Joi.number().min(Joi.ref('minPrice')) }),
+    listedAfter: Joi.date().iso().optional(),
+    listedBefore: Joi.date().iso().when('listedAfter', { is: Joi.exist(), then: Joi.date().min(Joi.ref('listedAfter')) }),
+    hasImages: Joi.boolean().optional(),
+    sellerId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(50).default(12),
+    sortBy: Joi.string().valid('relevance', 'createdAt', 'price', 'title').default('createdAt'),
+    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+    hideBlocked: Joi.boolean().default(true),
+    facets: Joi.boolean().default(false)
   })
 };
 
 // Message validation schemas
+const MAX_MESSAGE_ATTACHMENTS = 4;
+
+// An uploaded image (by the id returned from the upload endpoint) or a shared listing
+const messageAttachment = Joi.object({
+  type: Joi.string().valid('IMAGE', 'LISTING').required(),
+  attachmentId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).when('type', { is: 'IMAGE', then: Joi.required(), otherwise: Joi.forbidden() }),
+  productId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).when('type', { is: 'LISTING', then: Joi.required(), otherwise: Joi.forbidden() })
+});
+
+const messageBody = {
+  content: Joi.string().trim().max(1000).allow('').default(''),
+  attachments: Joi.array().items(messageAttachment).max(MAX_MESSAGE_ATTACHMENTS).default([]),
+  // Generated by the client so retries of the same message aren't stored twice
+  clientMessageId: Joi.string().max(64).optional()
+};
+
+// Text is optional when the message carries attachments
+const requireContentOrAttachments = (value, helpers) => {
+  if (!value.content && value.attachments.length === 0) {
+    return helpers.message('Message content cannot be empty');
+  }
+  return value;
+};
+
 const messageSchemas = {
   send: Joi.object({
     receiverId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
     productId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
-    content: Joi.string().min(1).max(1000).required()
-  }),
+    ...messageBody
+  }).custom(requireContentOrAttachments),
 
-  getConversation: Joi.object({
+  sendToConversation: Joi.object({
     conversationId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
+    ...messageBody
+  }).custom(requireContentOrAttachments),
+
+  getConversation: Joi.object({
+    conversationId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required()
+  }),
+
+  // Cursor over a conversation's messages: before pages towards older
+  // messages, after towards newer ones, neither gives the latest page
+  conversationHistory: Joi.object({
+    before: Joi.string().pattern(/^[a-zA-Z0-9]+$/),
+    after: Joi.string().pattern(/^[a-zA-Z0-9]+$/),
+    limit: Joi.number().integer().min(1).max(100).default(30)
+  }).oxor('before', 'after'),
+
+  // inbox leaves out archived conversations; every view leaves out the
+  // ones the user deleted
+  listConversations: Joi.object({
+    filter: Joi.string().valid('inbox', 'archived', 'muted', 'all').default('inbox'),
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(50).default(20)
   }),
 
+  updateConversationState: Joi.object({
+    archived: Joi.boolean(),
+    muted: Joi.boolean(),
+    pinned: Joi.boolean()
+  }).min(1),
+
   createConversation: Joi.object({
     productId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
     receiverId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required()
+  }),
+
+  makeOffer: Joi.object({
+    conversationId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
+    amount: Joi.number().positive().precision(2).max(99999999).required(),
+    message: Joi.string().trim().max(500).allow('').optional()
+  }),
+
+  counterOffer: Joi.object({
+    offerId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
+    amount: Joi.number().positive().precision(2).max(99999999).required(),
+    message: Joi.string().trim().max(500).allow('').optional()
+  }),
+
+  respondToOffer: Joi.object({
+    offerId: Joi.string().pattern(/^[a-zA-Z0-9]+$/).required(),
+    reserve: Joi.boolean().default(false)
+  })
+};
+
+// College validation schemas
+const collegeDomain = Joi.string().trim().lowercase().hostname().pattern(/\./);
+
+const collegeSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(2).max(255).required(),
+    domains: Joi.array().items(collegeDomain).min(1).unique().required(),
+    city: Joi.string().trim().max(100).optional(),
+    state: Joi.string().trim().max(100).optional(),
+    country: Joi.string().trim().max(100).optional()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(2).max(255).optional(),
+    domains: Joi.array().items(collegeDomain).min(1).unique().optional(),
+    city: Joi.string().trim().max(100).allow(null).optional(),
+    state: Joi.string().trim().max(100).allow(null).optional(),
+    country: Joi.string().trim().max(100).allow(null).optional(),
+    isActive: Joi.boolean().optional()
+  }).min(1)
+};
+
+// Report and moderation validation schemas
+const reportSchemas = {
+  // status 'all' lists reports whatever their status
+  list: Joi.object({
+    status: Joi.string().valid('OPEN', 'RESOLVED', 'DISMISSED', 'all').default('OPEN'),
+    targetType: Joi.string().valid('PRODUCT', 'USER', 'MESSAGE').optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(50).default(20)
+  }),
+
+  create: Joi.object({
+    targetType: Joi.string().valid('PRODUCT', 'USER', 'MESSAGE').required(),
+    targetId: Joi.string().required(),
+    reason: Joi.string().valid('SCAM', 'SPAM', 'ABUSE', 'PROHIBITED_ITEM', 'OTHER').required(),
+    details: Joi.string().trim().max(1000).allow('').optional()
+  }),
+
+  resolve: Joi.object({
+    status: Joi.string().valid('RESOLVED', 'DISMISSED').required(),
+    resolution: Joi.string().trim().max(1000).allow('').optional()
+  }),
+
+  moderationAction: Joi.object({
+    reason: Joi.string().trim().max(500).allow('').optional()
+  })
+};
+
+const notificationSchemas = {
+  // Newest first; before is the id of the last notification already loaded
+  list: Joi.object({
+    before: Joi.string().pattern(/^[a-zA-Z0-9]+$/),
+    limit: Joi.number().integer().min(1).max(50).default(20),
+    unread: Joi.boolean().default(false)
   })
 };
 
@@ -101,14 +353,6 @@ const commonSchemas = {
   })
 };
 
-// College email validation
-const validateCollegeEmail = (email) => {
-  const allowedDomains = process.env.ALLOWED_COLLEGE_DOMAINS?.split(',') || ['edu', 'ac.in'];
-  const emailDomain = email.split('@')[1];
-  
-  return allowedDomains.some(domain => emailDomain.endsWith(domain));
-};
-
 // Validation middleware factory
 const validate = (schema, property = 'body') => {
   return (req, res, next) => {
@@ -147,11 +391,15 @@ const validateImage = (file) => {
 };
 
 module.exports = {
+  MAX_MESSAGE_ATTACHMENTS,
   userSchemas,
   productSchemas,
+  searchSchemas,
   messageSchemas,
+  collegeSchemas,
+  reportSchemas,
+  notificationSchemas,
   commonSchemas,
   validate,
-  validateCollegeEmail,
   validateImage
 }; 
\ No newline at end of file
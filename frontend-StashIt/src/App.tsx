@@ -2,7 +2,10 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SocketProvider } from './contexts/SocketContext';
+import { CampusProvider } from './contexts/CampusContext';
 import Header from './components/Layout/Header';
+import VerifyEmailBanner from './components/Layout/VerifyEmailBanner';
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Register from './pages/Register';
@@ -11,6 +14,10 @@ import Sell from './pages/Sell';
 import Products from './pages/Products';
 import ProductDetails from './pages/ProductDetails';
 import Messages from './pages/Messages';
+import VerifyEmail from './pages/VerifyEmail';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import Admin from './pages/Admin';
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -31,6 +38,29 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   return <>{children}</>;
 };
 
+// Admin Route Component (signed-in admins only)
+const AdminRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (user.role !== 'ADMIN') {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
 // Public Route Component (redirect to home if authenticated)
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
@@ -54,6 +84,7 @@ function AppContent() {
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <VerifyEmailBanner />
       <main>
         <Routes>
           {/* Public Routes */}
@@ -69,6 +100,13 @@ function AppContent() {
               <Register />
             </PublicRoute>
           } />
+          <Route path="/forgot-password" element={
+            <PublicRoute>
+              <ForgotPassword />
+            </PublicRoute>
+          } />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
 
           {/* Protected Routes */}
           <Route path="/sell" element={
@@ -88,6 +126,12 @@ function AppContent() {
               <Profile />
             </ProtectedRoute>
           } />
+
+          <Route path="/admin" element={
+            <AdminRoute>
+              <Admin />
+            </AdminRoute>
+          } />
         
           <Route path="/search" element={
             <div className="container mx-auto px-4 py-8">
@@ -145,7 +189,11 @@ function App() {
   return (
     <Router>
       <AuthProvider>
-        <AppContent />
+        <SocketProvider>
+          <CampusProvider>
+            <AppContent />
+          </CampusProvider>
+        </SocketProvider>
       </AuthProvider>
     </Router>
   );
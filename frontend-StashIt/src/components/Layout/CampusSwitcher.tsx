@@ -0,0 +1,39 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCampus } from '../../hooks/useCampus';
+
+const CampusSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { user } = useAuth();
+  const { campus, setCampus, colleges } = useCampus();
+
+  const otherColleges = colleges.filter(college => college.name !== user?.college);
+
+  return (
+    <div className={`relative flex items-center ${className}`}>
+      <MapPin className="absolute left-2 h-4 w-4 text-gray-400 pointer-events-none" />
+      <select
+        value={campus}
+        onChange={(e) => setCampus(e.target.value)}
+        aria-label="Campus"
+        className="pl-7 pr-2 py-1.5 text-sm border border-gray-300 rounded-full bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 max-w-[12rem]"
+      >
+        {user ? (
+          <>
+            <option value="">My campus ({user.college})</option>
+            <option value="all">All campuses</option>
+          </>
+        ) : (
+          <option value="">All campuses</option>
+        )}
+        {otherColleges.map((college) => (
+          <option key={college.id} value={college.name}>
+            {college.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CampusSwitcher;
@@ -8,9 +8,13 @@ import {
   PlusCircle,
   Menu,
   X,
-  ShoppingBag
+  ShoppingBag,
+  Shield
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import CampusSwitcher from './CampusSwitcher';
+import NotificationBell from '../notifications/NotificationBell';
+import UnreadMessagesBadge from '../chat/UnreadMessagesBadge';
 
 const Header: React.FC = () => {
   const { user, logout } = useAuth();
@@ -46,6 +50,9 @@ const Header: React.FC = () => {
             <span className="text-xl font-bold text-gray-900">Stash It</span>
           </Link>
 
+          {/* Campus Switcher */}
+          <CampusSwitcher className="hidden lg:flex ml-6" />
+
           {/* Search Bar */}
           <div className="flex-1 max-w-lg mx-8">
             <form onSubmit={handleSearch} className="relative">
@@ -74,13 +81,17 @@ const Header: React.FC = () => {
 
                 <Link
                   to="/messages"
-                  className={`p-2 rounded-full hover:bg-gray-100 transition-colors ${
+                  className={`relative p-2 rounded-full hover:bg-gray-100 transition-colors ${
                     isActive('/messages') ? 'bg-blue-50 text-blue-600' : 'text-gray-600'
                   }`}
+                  aria-label="Messages"
                 >
                   <MessageCircle className="h-6 w-6" />
+                  <UnreadMessagesBadge className="absolute -top-0.5 -right-0.5" />
                 </Link>
 
+                <NotificationBell />
+
                 {/* User Menu */}
                 <div className="relative">
                   <button
@@ -107,6 +118,17 @@ const Header: React.FC = () => {
                         <User className="h-4 w-4 mr-2" />
                         Profile
                       </Link>
+
+                      {user.role === 'ADMIN' && (
+                        <Link
+                          to="/admin"
+                          className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setIsUserMenuOpen(false)}
+                        >
+                          <Shield className="h-4 w-4 mr-2" />
+                          Moderation
+                        </Link>
+                      )}
                       
                       
                       <button
@@ -138,6 +160,8 @@ const Header: React.FC = () => {
             )}
           </div>
 
+          {user && <NotificationBell className="md:hidden" />}
+
           {/* Mobile Menu Button */}
           <button
             onClick={() => setIsMenuOpen(!isMenuOpen)}
@@ -150,6 +174,7 @@ const Header: React.FC = () => {
         {/* Mobile Menu */}
         {isMenuOpen && (
           <div className="md:hidden border-t border-gray-200 py-4">
+            <CampusSwitcher className="px-4 mb-3" />
             {user ? (
               <div className="space-y-2">
                 <Link
@@ -168,6 +193,7 @@ const Header: React.FC = () => {
                 >
                   <MessageCircle className="h-5 w-5" />
                   <span>Messages</span>
+                  <UnreadMessagesBadge />
                 </Link>
                 
                 <Link
@@ -178,6 +204,17 @@ const Header: React.FC = () => {
                   <User className="h-5 w-5" />
                   <span>Profile</span>
                 </Link>
+
+                {user.role === 'ADMIN' && (
+                  <Link
+                    to="/admin"
+                    className="flex items-center space-x-2 px-4 py-2 text-gray-900 hover:bg-gray-100 rounded-md"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <Shield className="h-5 w-5" />
+                    <span>Moderation</span>
+                  </Link>
+                )}
                 
                 <button
                   onClick={handleLogout}
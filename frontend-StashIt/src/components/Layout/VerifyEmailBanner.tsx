@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { MailWarning } from 'lucide-react';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { authAPI } from '../../lib/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { ApiError } from '../../types';
+
+const VerifyEmailBanner: React.FC = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.isVerified || location.pathname === '/verify-email') {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await authAPI.resendVerification();
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to send verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center space-x-2 text-yellow-800">
+          <MailWarning className="w-4 h-4 flex-shrink-0" />
+          <span>Verify your email address to post listings and message sellers.</span>
+        </div>
+        <div className="flex items-center space-x-4">
+          <Link to="/verify-email" className="font-medium text-yellow-900 hover:underline">
+            Enter code
+          </Link>
+          <button
+            onClick={handleResend}
+            disabled={isSending}
+            className="font-medium text-yellow-900 hover:underline disabled:opacity-50"
+          >
+            {isSending ? 'Sending...' : 'Resend email'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { userAPI } from '../../lib/api';
+import { UserBlock } from '../../types';
+
+// Users the signed-in user has blocked, with a way to unblock them
+const BlockedUsers: React.FC = () => {
+  const [blocks, setBlocks] = useState<UserBlock[]>([]);
+
+  useEffect(() => {
+    const fetchBlocks = async () => {
+      try {
+        const response = await userAPI.getBlockedUsers();
+        setBlocks(response.data.data.blocks);
+      } catch (error) {
+        console.error('Failed to fetch blocked users:', error);
+      }
+    };
+
+    fetchBlocks();
+  }, []);
+
+  const handleUnblock = async (block: UserBlock) => {
+    try {
+      await userAPI.unblockUser(block.blockedId);
+      setBlocks(prev => prev.filter(existing => existing.id !== block.id));
+      toast.success(`${block.blocked.firstName} has been unblocked`);
+    } catch {
+      toast.error('Failed to unblock user');
+    }
+  };
+
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className="mt-8 border-t pt-8">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Blocked Users</h2>
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {blocks.map((block) => (
+          <div key={block.id} className="flex items-center justify-between p-4">
+            <div className="min-w-0">
+              <p className="text-gray-900 truncate">
+                {block.blocked.firstName} {block.blocked.lastName}
+              </p>
+              <p className="text-sm text-gray-500">
+                {block.blocked.college} · Blocked {formatDistanceToNow(new Date(block.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            <button
+              onClick={() => handleUnblock(block)}
+              className="ml-4 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Unblock
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BlockedUsers;
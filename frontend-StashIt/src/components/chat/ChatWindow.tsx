@@ -1,37 +1,276 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { messageAPI } from '../../lib/api';
-import { Message, Conversation } from '../../types';
+import toast from 'react-hot-toast';
+import { messageAPI, userAPI } from '../../lib/api';
+import { Message, MessageAttachment, MessageCursor, Conversation, Offer, ApiError, OutgoingAttachment, Product } from '../../types';
+import { AxiosError } from 'axios';
 import { formatDistanceToNow } from 'date-fns';
-import { Send, ArrowLeft } from 'lucide-react';
+import { Send, ArrowLeft, Tag, Ban, ImagePlus, Package, X, Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useSocket } from '../../contexts/SocketContext';
+import OfferCard from './OfferCard';
+import ReportButton from '../reports/ReportButton';
+import MessageAttachments from './MessageAttachments';
+import ShareListingPicker from './ShareListingPicker';
+import PresenceStatus from './PresenceStatus';
+import { usePresence } from '../../hooks/usePresence';
+
+const MAX_ATTACHMENTS = 4;
+// How long to wait for the server to acknowledge a socket send before
+// retrying over REST
+const SEND_ACK_TIMEOUT = 8000;
+// Typing stops being announced after this long without a keystroke
+const TYPING_IDLE_TIMEOUT = 2000;
+// Drop the other user's typing indicator if their stop event never arrives
+const TYPING_INDICATOR_TIMEOUT = 5000;
+// Start loading older messages when scrolled this close to the top (px)
+const LOAD_OLDER_THRESHOLD = 80;
+// Pages fetched when catching up after a reconnect, before giving up and
+// leaving the rest to a reload
+const MAX_CATCH_UP_PAGES = 5;
+
+// Attachments staged in the composer, with what's needed to preview them
+type PendingAttachment = OutgoingAttachment & { key: string; previewUrl?: string; product?: Product };
+
+interface OutgoingMessage {
+  conversationId: string;
+  content: string;
+  attachments: OutgoingAttachment[];
+  clientMessageId: string;
+}
+
+type SendAcknowledgement = { success: true; message: Message } | { success: false; error: string };
+
+// Messages shown before the server confirms them carry their payload so a
+// failed send can be retried with the same clientMessageId
+type ChatMessage = Message & { pending?: boolean; failed?: boolean; outgoing?: OutgoingMessage };
+
+// Swap in the stored copy of a message: replaces the optimistic copy with
+// the same clientMessageId, or a copy already received, otherwise appends
+const mergeMessage = (messages: ChatMessage[], message: Message): ChatMessage[] => {
+  const index = messages.findIndex(existing =>
+    existing.id === message.id ||
+    (!!message.clientMessageId && existing.clientMessageId === message.clientMessageId)
+  );
+  if (index === -1) return [...messages, message];
+
+  const existing = messages[index];
+  const next = [...messages];
+  next[index] = {
+    ...message,
+    isRead: message.isRead || existing.isRead,
+    readAt: message.readAt || existing.readAt
+  };
+  return next;
+};
+
+const toPreviewAttachment = (attachment: PendingAttachment, position: number): MessageAttachment =>
+  attachment.type === 'IMAGE'
+    ? { id: attachment.key, type: 'IMAGE', url: attachment.previewUrl, thumbnailUrl: attachment.previewUrl, position }
+    : { id: attachment.key, type: 'LISTING', productId: attachment.productId, product: attachment.product, position };
 
 const ChatWindow: React.FC = () => {
   const { conversationId } = useParams<{ conversationId: string }>();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [offers, setOffers] = useState<Offer[]>([]);
   const [newMessage, setNewMessage] = useState('');
+  const [showOfferForm, setShowOfferForm] = useState(false);
+  const [offerAmount, setOfferAmount] = useState('');
+  const [offerMessage, setOfferMessage] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [showListingPicker, setShowListingPicker] = useState(false);
+  const [typingUserName, setTypingUserName] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [loading, setLoading] = useState(true);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were prepended, to keep the view
+  // anchored on what the user was reading
+  const scrollHeightBeforePrependRef = useRef<number | undefined>(undefined);
+  // Set when a conversation's latest page arrives, which opens at the bottom
+  const jumpToBottomRef = useRef(false);
+  // Newest stored message, the cursor for catching up after a reconnect
+  const latestMessageRef = useRef<Message | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isTypingRef = useRef(false);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { socket, isConnected } = useSocket();
+  const otherUserId = conversation?.otherUser?.id;
+  const livePresence = usePresence(otherUserId ? [otherUserId] : []);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      const [messagesResponse, offersResponse] = await Promise.all([
+        messageAPI.getConversationMessages(conversationId!),
+        messageAPI.getOffers(conversationId!)
+      ]);
+      jumpToBottomRef.current = true;
+      setMessages(messagesResponse.data.data.messages);
+      setHasOlder((messagesResponse.data.data.pagination as MessageCursor).hasOlder);
+      setConversation(messagesResponse.data.data.conversation);
+      setOffers(offersResponse.data.data.offers);
+      setLoading(false);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+      setLoading(false);
+    }
+  }, [conversationId]);
 
   useEffect(() => {
     if (conversationId) {
       loadMessages();
     }
-  }, [conversationId]);
+  }, [conversationId, loadMessages]);
 
-  const loadMessages = async () => {
-    try {
-      const response = await messageAPI.getConversationMessages(conversationId!);
-      setMessages(response.data.data.messages);
-      setConversation(response.data.data.conversation);
-      setLoading(false);
+  useEffect(() => {
+    latestMessageRef.current = [...messages].reverse().find(message => !message.outgoing);
+  }, [messages]);
+
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    if (jumpToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+      jumpToBottomRef.current = false;
+    } else if (scrollHeightBeforePrependRef.current !== undefined) {
+      container.scrollTop += container.scrollHeight - scrollHeightBeforePrependRef.current;
+      scrollHeightBeforePrependRef.current = undefined;
+    }
+  }, [messages, loading]);
+
+  // Rejoin the room after every reconnect, since rooms don't survive one
+  useEffect(() => {
+    if (!socket || !isConnected || !conversationId) return;
+
+    let typingIndicatorTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const upsertOffer = (offer: Offer) => {
+      if (offer.conversationId !== conversationId) return;
+      setOffers(prev => {
+        const exists = prev.some(existing => existing.id === offer.id);
+        return exists
+          ? prev.map(existing => existing.id === offer.id ? offer : existing)
+          : [...prev, offer];
+      });
       scrollToBottom();
+    };
+
+    const handleNewMessage = (message: Message) => {
+      if (message.conversationId !== conversationId) return;
+
+      setMessages(prev => mergeMessage(prev, message));
+      scrollToBottom();
+
+      if (message.senderId !== user?.id) {
+        setTypingUserName(null);
+        socket.emit('mark-read', { conversationId });
+      }
+    };
+
+    const handleUserTyping = (data: { userId: string; userName: string; conversationId: string }) => {
+      if (data.conversationId !== conversationId || data.userId === user?.id) return;
+      setTypingUserName(data.userName);
+      clearTimeout(typingIndicatorTimeout);
+      typingIndicatorTimeout = setTimeout(() => setTypingUserName(null), TYPING_INDICATOR_TIMEOUT);
+    };
+
+    const handleUserStoppedTyping = (data: { userId: string; conversationId: string }) => {
+      if (data.conversationId !== conversationId || data.userId === user?.id) return;
+      clearTimeout(typingIndicatorTimeout);
+      setTypingUserName(null);
+    };
+
+    const handleMessagesRead = (data: { conversationId: string; messageIds: string[]; readAt: string }) => {
+      if (data.conversationId !== conversationId) return;
+      setMessages(prev => prev.map(message =>
+        data.messageIds.includes(message.id) ? { ...message, isRead: true, readAt: data.readAt } : message
+      ));
+    };
+
+    const handleError = (message: string) => {
+      toast.error(message);
+    };
+
+    // Fetch whatever arrived while the socket was down
+    const catchUp = async (afterId: string) => {
+      try {
+        let after: string | null = afterId;
+        for (let page = 0; after && page < MAX_CATCH_UP_PAGES; page++) {
+          const response = await messageAPI.getConversationMessages(conversationId, { after });
+          const newer: Message[] = response.data.data.messages;
+          const cursor: MessageCursor = response.data.data.pagination;
+          setMessages(prev => newer.reduce(mergeMessage, prev));
+          after = cursor.hasNewer ? cursor.after : null;
+        }
+      } catch (error) {
+        console.error('Failed to catch up on messages:', error);
+      }
+    };
+
+    socket.emit('join-conversation', conversationId);
+    socket.emit('mark-read', { conversationId });
+    const latestMessage = latestMessageRef.current;
+    if (latestMessage?.conversationId === conversationId) {
+      catchUp(latestMessage.id);
+    }
+    socket.on('new-message', handleNewMessage);
+    socket.on('user-typing', handleUserTyping);
+    socket.on('user-stopped-typing', handleUserStoppedTyping);
+    socket.on('messages-read', handleMessagesRead);
+    socket.on('new-offer', upsertOffer);
+    socket.on('offer-updated', upsertOffer);
+    socket.on('error', handleError);
+
+    return () => {
+      clearTimeout(typingIndicatorTimeout);
+      clearTimeout(typingTimeoutRef.current);
+      setTypingUserName(null);
+      if (isTypingRef.current) {
+        isTypingRef.current = false;
+        socket.emit('stop-typing', { conversationId });
+      }
+      socket.emit('leave-conversation', conversationId);
+      socket.off('new-message', handleNewMessage);
+      socket.off('user-typing', handleUserTyping);
+      socket.off('user-stopped-typing', handleUserStoppedTyping);
+      socket.off('messages-read', handleMessagesRead);
+      socket.off('new-offer', upsertOffer);
+      socket.off('offer-updated', upsertOffer);
+      socket.off('error', handleError);
+    };
+  }, [socket, isConnected, conversationId, user?.id]);
+
+  const loadOlderMessages = async () => {
+    const oldestMessage = messages.find(message => !message.outgoing);
+    if (!conversationId || !hasOlder || loadingOlder || !oldestMessage) return;
+
+    setLoadingOlder(true);
+    try {
+      const response = await messageAPI.getConversationMessages(conversationId, { before: oldestMessage.id });
+      const older: Message[] = response.data.data.messages;
+      scrollHeightBeforePrependRef.current = messagesContainerRef.current?.scrollHeight;
+      setMessages(prev => [
+        ...older.filter(message => !prev.some(existing => existing.id === message.id)),
+        ...prev
+      ]);
+      setHasOlder((response.data.data.pagination as MessageCursor).hasOlder);
     } catch (error) {
-      console.error('Failed to load messages:', error);
-      setLoading(false);
+      console.error('Failed to load older messages:', error);
+      toast.error('Failed to load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadOlderMessages();
     }
   };
 
@@ -39,23 +278,204 @@ const ChatWindow: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
+  const stopTyping = () => {
+    clearTimeout(typingTimeoutRef.current);
+    if (isTypingRef.current) {
+      isTypingRef.current = false;
+      socket?.emit('stop-typing', { conversationId });
+    }
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!socket?.connected || !conversationId) return;
+
+    if (!isTypingRef.current && value.trim()) {
+      isTypingRef.current = true;
+      socket.emit('typing', { conversationId });
+    }
+    clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_TIMEOUT);
+  };
+
+  const markFailed = (clientMessageId: string) => {
+    setMessages(prev => prev.map(message =>
+      message.clientMessageId === clientMessageId && message.pending
+        ? { ...message, pending: false, failed: true }
+        : message
+    ));
+  };
+
+  // Send over the socket and wait for the acknowledgement; when the socket
+  // is down or doesn't answer, send over REST. The server dedupes on
+  // clientMessageId, so a message can't be stored twice.
+  const deliverMessage = async (outgoing: OutgoingMessage) => {
+    if (socket?.connected) {
+      try {
+        const response: SendAcknowledgement = await socket
+          .timeout(SEND_ACK_TIMEOUT)
+          .emitWithAck('send-message', outgoing);
+
+        if (response.success) {
+          setMessages(prev => mergeMessage(prev, response.message));
+        } else {
+          markFailed(outgoing.clientMessageId);
+          toast.error(response.error);
+        }
+        return;
+      } catch {
+        // No acknowledgement in time; fall back to REST below
+      }
+    }
+
+    try {
+      const { conversationId: targetConversationId, ...body } = outgoing;
+      const response = await messageAPI.sendMessage(targetConversationId, body);
+      setMessages(prev => mergeMessage(prev, response.data.data.message));
+    } catch (error) {
+      markFailed(outgoing.clientMessageId);
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to send message');
+    }
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !conversationId) return;
+    const content = newMessage.trim();
+    if ((!content && pendingAttachments.length === 0) || !conversationId || !conversation || !user) return;
+
+    const outgoing: OutgoingMessage = {
+      conversationId,
+      content,
+      attachments: pendingAttachments.map(attachment =>
+        attachment.type === 'IMAGE'
+          ? { type: 'IMAGE', attachmentId: attachment.attachmentId }
+          : { type: 'LISTING', productId: attachment.productId }
+      ),
+      clientMessageId: crypto.randomUUID()
+    };
+
+    const receiver = conversation.otherUser || { id: '', firstName: '', lastName: '' };
+    setMessages(prev => [...prev, {
+      id: outgoing.clientMessageId,
+      clientMessageId: outgoing.clientMessageId,
+      senderId: user.id,
+      receiverId: receiver.id,
+      productId: conversation.productId,
+      content,
+      isRead: false,
+      createdAt: new Date().toISOString(),
+      sender: { id: user.id, firstName: user.firstName, lastName: user.lastName },
+      receiver,
+      attachments: pendingAttachments.map(toPreviewAttachment),
+      pending: true,
+      outgoing
+    }]);
+    setNewMessage('');
+    setPendingAttachments([]);
+    stopTyping();
+    scrollToBottom();
 
+    deliverMessage(outgoing);
+  };
+
+  const handleRetry = (message: ChatMessage) => {
+    if (!message.outgoing) return;
+    setMessages(prev => prev.map(existing =>
+      existing.id === message.id ? { ...existing, pending: true, failed: false } : existing
+    ));
+    deliverMessage(message.outgoing);
+  };
+
+  const handleSelectImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_ATTACHMENTS - pendingAttachments.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const formData = new FormData();
+    files.forEach(file => formData.append('images', file));
+
+    setUploading(true);
     try {
-      await messageAPI.sendMessage(conversationId, { content: newMessage.trim() });
-      setNewMessage('');
-      loadMessages(); // Reload messages to get the new one
+      const response = await messageAPI.uploadAttachmentImages(formData);
+      const uploaded: { id: string; url: string; thumbnailUrl: string }[] = response.data.data.attachments;
+      setPendingAttachments(prev => [
+        ...prev,
+        ...uploaded.map(image => ({
+          type: 'IMAGE' as const,
+          attachmentId: image.id,
+          key: image.id,
+          previewUrl: image.thumbnailUrl || image.url
+        }))
+      ]);
     } catch (error) {
-      console.error('Failed to send message:', error);
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to upload images');
+    } finally {
+      setUploading(false);
     }
   };
 
+  const handleShareListing = (product: Product) => {
+    setShowListingPicker(false);
+    if (pendingAttachments.some(attachment => attachment.type === 'LISTING' && attachment.productId === product.id)) return;
+
+    setPendingAttachments(prev => [
+      ...prev,
+      {
+        type: 'LISTING',
+        productId: product.id,
+        key: `listing-${product.id}`,
+        previewUrl: product.images?.[0],
+        product
+      }
+    ]);
+  };
+
+  const removePendingAttachment = (key: string) => {
+    setPendingAttachments(prev => prev.filter(attachment => attachment.key !== key));
+  };
+
+  const handleMakeOffer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(offerAmount);
+    if (!socket || !conversationId || !amount || amount <= 0) return;
+
+    socket.emit('make-offer', { conversationId, amount, message: offerMessage.trim() });
+    setShowOfferForm(false);
+    setOfferAmount('');
+    setOfferMessage('');
+  };
+
+  const handleAcceptOffer = (offerId: string, reserve: boolean) => {
+    socket?.emit('accept-offer', { offerId, reserve });
+  };
+
+  const handleRejectOffer = (offerId: string) => {
+    socket?.emit('reject-offer', { offerId });
+  };
+
+  const handleCounterOffer = (offerId: string, amount: number, message: string) => {
+    socket?.emit('counter-offer', { offerId, amount, message });
+  };
+
   const handleBack = () => {
     navigate('/messages');
   };
 
+  const handleBlockUser = async () => {
+    const otherUser = conversation?.otherUser;
+    if (!otherUser) return;
+    if (!window.confirm(`Block ${otherUser.firstName}? You won't be able to message each other.`)) return;
+
+    try {
+      await userAPI.blockUser(otherUser.id);
+      toast.success(`${otherUser.firstName} has been blocked`);
+      // Tell the conversation list to reload without this conversation
+      navigate('/messages', { state: { refreshedAt: Date.now() } });
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to block user');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -72,6 +492,21 @@ const ChatWindow: React.FC = () => {
     );
   }
 
+  const isBuyer = !!user && conversation.product.sellerId !== undefined && conversation.product.sellerId !== user.id;
+  const hasPendingOffer = offers.some(offer =>
+    offer.status === 'PENDING' && new Date(offer.expiresAt) > new Date()
+  );
+
+  // Messages and offers share one timeline, ordered by creation time.
+  // Offers older than the loaded messages wait until their page is loaded.
+  const oldestLoadedAt = hasOlder && messages.length > 0 ? new Date(messages[0].createdAt) : null;
+  const timeline = [
+    ...messages.map(message => ({ kind: 'message' as const, createdAt: message.createdAt, message })),
+    ...offers
+      .filter(offer => !oldestLoadedAt || new Date(offer.createdAt) >= oldestLoadedAt)
+      .map(offer => ({ kind: 'offer' as const, createdAt: offer.createdAt, offer }))
+  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -90,11 +525,29 @@ const ChatWindow: React.FC = () => {
               <h2 className="font-semibold text-gray-900 truncate">
                 {conversation.otherUser?.firstName} {conversation.otherUser?.lastName}
               </h2>
+              <PresenceStatus
+                presence={otherUserId ? livePresence[otherUserId] ?? conversation.otherUser?.presence : null}
+                className="text-xs"
+              />
               <p className="text-sm text-gray-500 truncate">
                 {conversation.product.title} - ${conversation.product.price}
               </p>
             </div>
 
+            {conversation.otherUser && (
+              <div className="flex items-center gap-3">
+                <ReportButton targetType="USER" targetId={conversation.otherUser.id} label="Report user" />
+                <button
+                  type="button"
+                  onClick={handleBlockUser}
+                  className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-red-600"
+                >
+                  <Ban className="h-4 w-4" />
+                  Block
+                </button>
+              </div>
+            )}
+
             {conversation.product.images?.[0] && (
               <div className="flex-shrink-0">
                 <img 
@@ -109,42 +562,202 @@ const ChatWindow: React.FC = () => {
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {loadingOlder && (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+        {!hasOlder && messages.length > 0 && (
+          <p className="text-center text-xs text-gray-400">This is the start of your conversation</p>
+        )}
+        {timeline.map((item) => item.kind === 'offer' ? (
+          <OfferCard
+            key={`offer-${item.offer.id}`}
+            offer={item.offer}
+            currentUserId={user?.id}
+            onAccept={handleAcceptOffer}
+            onReject={handleRejectOffer}
+            onCounter={handleCounterOffer}
+          />
+        ) : (
           <div
-            key={message.id}
-            className={`flex ${message.senderId === user?.id ? 'justify-end' : 'justify-start'}`}
+            key={item.message.clientMessageId || item.message.id}
+            className={`flex ${item.message.senderId === user?.id ? 'justify-end' : 'justify-start'}`}
           >
             <div
               className={`max-w-[70%] rounded-lg p-3 ${
-                message.senderId === user?.id
+                item.message.senderId === user?.id
                   ? 'bg-blue-600 text-white'
                   : 'bg-gray-100 text-gray-900'
               }`}
             >
-              <p className="text-sm">{message.content}</p>
-              <p className="text-xs mt-1 opacity-70">
-                {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
-              </p>
+              {item.message.attachments && item.message.attachments.length > 0 && (
+                <div className={item.message.content ? 'mb-2' : ''}>
+                  <MessageAttachments attachments={item.message.attachments} />
+                </div>
+              )}
+              {item.message.content && (
+                <p className="text-sm">{item.message.content}</p>
+              )}
+              <div className="flex items-center justify-between gap-3 mt-1">
+                <p className="text-xs opacity-70">
+                  {formatDistanceToNow(new Date(item.message.createdAt), { addSuffix: true })}
+                </p>
+                {item.message.senderId !== user?.id ? (
+                  <ReportButton targetType="MESSAGE" targetId={item.message.id} label="Report" className="text-xs" />
+                ) : item.message.failed ? (
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(item.message)}
+                    className="inline-flex items-center gap-1 text-xs font-medium text-red-100 hover:text-white"
+                  >
+                    <AlertCircle className="h-3.5 w-3.5" />
+                    Not sent · Retry
+                  </button>
+                ) : item.message.pending ? (
+                  <Clock className="h-3.5 w-3.5 opacity-70" aria-label="Sending" />
+                ) : item.message.isRead ? (
+                  <CheckCheck className="h-3.5 w-3.5" aria-label="Read" />
+                ) : (
+                  <Check className="h-3.5 w-3.5 opacity-70" aria-label="Sent" />
+                )}
+              </div>
             </div>
           </div>
         ))}
+        {typingUserName && (
+          <p className="text-sm text-gray-500 italic">{typingUserName} is typing...</p>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Offer Form */}
+      {showOfferForm && (
+        <form onSubmit={handleMakeOffer} className="px-4 pt-4 border-t border-gray-200 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              required
+              value={offerAmount}
+              onChange={(e) => setOfferAmount(e.target.value)}
+              placeholder={`Your offer (listed at $${conversation.product.price})`}
+              className="w-40 rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              maxLength={500}
+              value={offerMessage}
+              onChange={(e) => setOfferMessage(e.target.value)}
+              placeholder="Message (optional)"
+              className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Send offer
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowOfferForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
       {/* Message Input */}
       <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-200">
-        <div className="flex gap-2">
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {pendingAttachments.map((attachment) => (
+              <div key={attachment.key} className="relative flex items-center gap-2 rounded-md border border-gray-200 bg-white p-1 pr-6">
+                {attachment.previewUrl ? (
+                  <img src={attachment.previewUrl} alt="" className="w-12 h-12 object-cover rounded" />
+                ) : (
+                  <div className="w-12 h-12 bg-gray-100 rounded flex items-center justify-center">
+                    <Package className="h-5 w-5 text-gray-400" />
+                  </div>
+                )}
+                {attachment.product && (
+                  <span className="max-w-[8rem] text-xs text-gray-700 truncate">{attachment.product.title}</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removePendingAttachment(attachment.key)}
+                  className="absolute top-0.5 right-0.5 p-0.5 text-gray-500 hover:text-gray-900"
+                  aria-label="Remove attachment"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="relative flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleSelectImages}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading || pendingAttachments.length >= MAX_ATTACHMENTS}
+            title="Attach photos"
+            className="rounded-full border border-gray-300 p-2 text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+          >
+            <ImagePlus className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowListingPicker(!showListingPicker)}
+            disabled={pendingAttachments.length >= MAX_ATTACHMENTS}
+            title="Share a listing"
+            className="rounded-full border border-gray-300 p-2 text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+          >
+            <Package className="h-5 w-5" />
+          </button>
+          {showListingPicker && (
+            <ShareListingPicker
+              onSelect={handleShareListing}
+              onClose={() => setShowListingPicker(false)}
+            />
+          )}
+          {isBuyer && conversation.product.status === 'ACTIVE' && !hasPendingOffer && !showOfferForm && (
+            <button
+              type="button"
+              onClick={() => setShowOfferForm(true)}
+              title="Make an offer"
+              className="rounded-full border border-gray-300 p-2 text-gray-600 hover:bg-gray-100"
+            >
+              <Tag className="h-5 w-5" />
+            </button>
+          )}
           <input
             type="text"
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
+            onChange={(e) => handleMessageChange(e.target.value)}
+            placeholder={uploading ? 'Uploading photos...' : 'Type a message...'}
             className="flex-1 rounded-full border border-gray-300 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
           <button
             type="submit"
-            disabled={!newMessage.trim()}
+            disabled={uploading || (!newMessage.trim() && pendingAttachments.length === 0)}
             className="bg-blue-600 text-white rounded-full p-2 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send className="h-5 w-5" />
@@ -1,20 +1,62 @@
-import React, { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { Archive, ArchiveRestore, BellOff, Bell, MoreVertical, Pin, PinOff, Trash2 } from 'lucide-react';
 import { messageAPI } from '../../lib/api';
-import { Conversation } from '../../types';
+import { ApiError, Conversation, ConversationFilter } from '../../types';
 import { formatDistanceToNow } from 'date-fns';
+import { usePresence } from '../../hooks/usePresence';
+import PresenceStatus from './PresenceStatus';
+
+// Last message text, or what it carried when it was only attachments
+const getPreview = (lastMessage: Conversation['lastMessage']) => {
+  if (!lastMessage) return 'No messages yet';
+  if (lastMessage.content) return lastMessage.content;
+  return lastMessage.attachments?.some(attachment => attachment.type === 'IMAGE')
+    ? 'Sent a photo'
+    : 'Shared a listing';
+};
+
+const FILTERS: { value: ConversationFilter; label: string; empty: string }[] = [
+  { value: 'inbox', label: 'Inbox', empty: 'No conversations yet' },
+  { value: 'archived', label: 'Archived', empty: 'No archived conversations' },
+  { value: 'muted', label: 'Muted', empty: 'No muted conversations' },
+  { value: 'all', label: 'All', empty: 'No conversations yet' }
+];
 
 const ConversationList: React.FC = () => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ConversationFilter>('inbox');
+  const [menuFor, setMenuFor] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const refreshedAt = (location.state as { refreshedAt?: number } | null)?.refreshedAt;
+  const livePresence = usePresence(
+    conversations.flatMap(conversation => conversation.otherUser ? [conversation.otherUser.id] : [])
+  );
 
   useEffect(() => {
-    loadConversations();
-  }, []);
+    loadConversations(filter);
+  }, [refreshedAt, filter]);
 
-  const loadConversations = async () => {
+  // Close the row menu when clicking anywhere else
+  useEffect(() => {
+    if (!menuFor) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setMenuFor(null);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [menuFor]);
+
+  const loadConversations = async (selected: ConversationFilter) => {
     try {
-      const response = await messageAPI.getConversations();
+      const response = await messageAPI.getConversations({ filter: selected });
       setConversations(response.data.data.conversations);
     } catch (error) {
       console.error('Failed to load conversations:', error);
@@ -23,66 +65,186 @@ const ConversationList: React.FC = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
+  const handleFilterChange = (value: ConversationFilter) => {
+    if (value === filter) return;
+    setLoading(true);
+    setFilter(value);
+  };
+
+  // Reload afterwards: the change can move the conversation within the
+  // list (pinning) or out of the current filter
+  const handleUpdateState = async (
+    conversationId: string,
+    data: { archived?: boolean; muted?: boolean; pinned?: boolean }
+  ) => {
+    setMenuFor(null);
+    try {
+      await messageAPI.updateConversationState(conversationId, data);
+      await loadConversations(filter);
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to update conversation');
+    }
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    setMenuFor(null);
+    if (!window.confirm(
+      `Delete your conversation with ${conversation.otherUser?.firstName}? It will come back if they message you again.`
+    )) return;
+
+    try {
+      await messageAPI.deleteConversation(conversation.id);
+      setConversations(prev => prev.filter(existing => existing.id !== conversation.id));
+      if (location.pathname === `/messages/${conversation.id}`) {
+        navigate('/messages');
+      }
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to delete conversation');
+    }
+  };
+
+  const menuItemClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-50';
 
   return (
-    <div className="divide-y divide-gray-200">
-      {conversations.length === 0 ? (
-        <div className="p-4 text-center text-gray-500">
-          No conversations yet
+    <div>
+      <div className="flex gap-1 px-4 py-2 border-b border-gray-200">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => handleFilterChange(value)}
+            className={`px-3 py-1 text-sm rounded-full transition-colors ${
+              filter === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
         </div>
       ) : (
-        conversations.map((conversation) => (
-          <Link
-            key={conversation.id}
-            to={`/messages/${conversation.id}`}
-            className="block p-4 hover:bg-gray-50 transition-colors"
-          >
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-full border-2 border-blue-600 flex items-center justify-center flex-shrink-0">
-                <span className="font-medium text-lg text-blue-600">
-                  {conversation.otherUser?.firstName?.[0]?.toUpperCase()}
-                </span>
-              </div>
-              
-              <div className="flex-1 min-w-0">
-                <div className="flex justify-between items-start mb-1">
-                  <h3 className="font-medium text-gray-900 truncate">
-                    {conversation.otherUser?.firstName} {conversation.otherUser?.lastName}
-                  </h3>
-                  {conversation.lastMessageAt && (
-                    <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
-                      {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
-                    </span>
-                  )}
-                </div>
+        <div className="divide-y divide-gray-200">
+          {conversations.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">
+              {FILTERS.find(option => option.value === filter)?.empty}
+            </div>
+          ) : (
+            conversations.map((conversation) => {
+              const presence = conversation.otherUser &&
+                (livePresence[conversation.otherUser.id] ?? conversation.otherUser.presence);
+              const state = conversation.state;
+
+              return (
+                <div key={conversation.id} className="relative flex hover:bg-gray-50 transition-colors">
+                  <Link
+                    to={`/messages/${conversation.id}`}
+                    className="flex-1 min-w-0 block p-4 pr-1"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="relative w-10 h-10 rounded-full border-2 border-blue-600 flex items-center justify-center flex-shrink-0">
+                        <span className="font-medium text-lg text-blue-600">
+                          {conversation.otherUser?.firstName?.[0]?.toUpperCase()}
+                        </span>
+                        {presence?.isOnline && (
+                          <span className="absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full bg-green-500 border-2 border-white" />
+                        )}
+                      </div>
                 
-                <div className="flex items-center gap-4">
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm text-gray-600 truncate">
-                      {conversation.lastMessage?.content || 'No messages yet'}
-                    </p>
-                    <p className="text-xs text-gray-500 mt-1 truncate">
-                      {conversation.product.title} - ${conversation.product.price}
-                    </p>
-                  </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between items-start mb-1">
+                          <h3 className="flex items-center gap-1 font-medium text-gray-900 min-w-0">
+                            <span className="truncate">
+                              {conversation.otherUser?.firstName} {conversation.otherUser?.lastName}
+                            </span>
+                            {state?.isPinned && <Pin className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" aria-label="Pinned" />}
+                            {state?.isMuted && <BellOff className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" aria-label="Muted" />}
+                          </h3>
+                          {conversation.lastMessageAt && (
+                            <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                              {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                            </span>
+                          )}
+                        </div>
                   
-                  {conversation.unreadCount > 0 && (
-                    <span className="bg-blue-600 text-white text-xs px-2 py-1 rounded-full flex-shrink-0">
-                      {conversation.unreadCount}
-                    </span>
-                  )}
+                        <div className="flex items-center gap-4">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-gray-600 truncate">
+                              {getPreview(conversation.lastMessage)}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1 truncate">
+                              {conversation.product.title} - ${conversation.product.price}
+                            </p>
+                            <PresenceStatus presence={presence} className="text-xs mt-1" />
+                          </div>
+                    
+                          {conversation.unreadCount > 0 && (
+                            <span className={`${state?.isMuted ? 'bg-gray-400' : 'bg-blue-600'} text-white text-xs px-2 py-1 rounded-full flex-shrink-0`}>
+                              {conversation.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </Link>
+
+                  <div ref={menuFor === conversation.id ? menuRef : undefined} className="relative pt-3 pr-2">
+                    <button
+                      type="button"
+                      onClick={() => setMenuFor(menuFor === conversation.id ? null : conversation.id)}
+                      className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                      aria-label="Conversation actions"
+                    >
+                      <MoreVertical className="h-4 w-4" />
+                    </button>
+
+                    {menuFor === conversation.id && (
+                      <div className="absolute right-2 mt-1 w-40 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-10">
+                        {!state?.isArchived && (
+                          <button
+                            type="button"
+                            onClick={() => handleUpdateState(conversation.id, { pinned: !state?.isPinned })}
+                            className={`${menuItemClass} text-gray-700`}
+                          >
+                            {state?.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            {state?.isPinned ? 'Unpin' : 'Pin'}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleUpdateState(conversation.id, { muted: !state?.isMuted })}
+                          className={`${menuItemClass} text-gray-700`}
+                        >
+                          {state?.isMuted ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                          {state?.isMuted ? 'Unmute' : 'Mute'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleUpdateState(conversation.id, { archived: !state?.isArchived })}
+                          className={`${menuItemClass} text-gray-700`}
+                        >
+                          {state?.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          {state?.isArchived ? 'Unarchive' : 'Archive'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(conversation)}
+                          className={`${menuItemClass} text-red-600`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </div>
-          </Link>
-        ))
+              );
+            })
+          )}
+        </div>
       )}
     </div>
   );
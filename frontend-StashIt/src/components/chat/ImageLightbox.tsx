@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+interface ImageLightboxProps {
+  images: string[];
+  index: number;
+  onChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Full-screen viewer for a message's images; arrow keys page, Escape closes
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, index, onChange, onClose }) => {
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && hasPrevious) onChange(index - 1);
+      if (e.key === 'ArrowRight' && hasNext) onChange(index + 1);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrevious, hasNext, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90" onClick={onClose}>
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-white hover:bg-white/10 rounded-full"
+        aria-label="Close"
+      >
+        <X className="h-6 w-6" />
+      </button>
+
+      {hasPrevious && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onChange(index - 1);
+          }}
+          className="absolute left-4 p-2 text-white hover:bg-white/10 rounded-full"
+          aria-label="Previous image"
+        >
+          <ChevronLeft className="h-8 w-8" />
+        </button>
+      )}
+
+      <img
+        src={images[index]}
+        alt=""
+        onClick={(e) => e.stopPropagation()}
+        className="max-h-[90vh] max-w-[90vw] object-contain"
+      />
+
+      {hasNext && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onChange(index + 1);
+          }}
+          className="absolute right-4 p-2 text-white hover:bg-white/10 rounded-full"
+          aria-label="Next image"
+        >
+          <ChevronRight className="h-8 w-8" />
+        </button>
+      )}
+
+      {images.length > 1 && (
+        <p className="absolute bottom-4 text-sm text-white/80">
+          {index + 1} / {images.length}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ImageLightbox;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Package } from 'lucide-react';
+import { MessageAttachment } from '../../types';
+import ImageLightbox from './ImageLightbox';
+
+// Image thumbnails (opening a lightbox) and shared listing cards of a message
+const MessageAttachments: React.FC<{ attachments: MessageAttachment[] }> = ({ attachments }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const images = attachments.filter(attachment => attachment.type === 'IMAGE' && attachment.url);
+  const listings = attachments.filter(attachment => attachment.type === 'LISTING');
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className="block overflow-hidden rounded-md"
+            >
+              <img
+                src={image.thumbnailUrl || image.url!}
+                alt=""
+                loading="lazy"
+                className={`w-full object-cover ${images.length > 1 ? 'h-28' : 'max-h-64'}`}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {listings.map((listing) => listing.product ? (
+        <Link
+          key={listing.id}
+          to={`/product/${listing.product.id}`}
+          className="flex items-center gap-3 p-2 bg-white rounded-md border border-gray-200 text-gray-900 hover:border-blue-300"
+        >
+          {listing.product.images?.[0] ? (
+            <img
+              src={listing.product.images[0]}
+              alt={listing.product.title}
+              className="w-12 h-12 object-cover rounded flex-shrink-0"
+            />
+          ) : (
+            <div className="w-12 h-12 bg-gray-100 rounded flex items-center justify-center flex-shrink-0">
+              <Package className="h-5 w-5 text-gray-400" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{listing.product.title}</p>
+            <p className="text-sm text-blue-600">${listing.product.price}</p>
+            {listing.product.status !== 'ACTIVE' && (
+              <p className="text-xs text-gray-500 capitalize">{listing.product.status.toLowerCase()}</p>
+            )}
+          </div>
+        </Link>
+      ) : (
+        <div key={listing.id} className="p-2 bg-white rounded-md border border-gray-200 text-sm text-gray-500">
+          This listing is no longer available
+        </div>
+      ))}
+
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={images.map(image => image.url!)}
+          index={lightboxIndex}
+          onChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Tag } from 'lucide-react';
+import { Offer } from '../../types';
+
+interface OfferCardProps {
+  offer: Offer;
+  currentUserId?: string;
+  onAccept: (offerId: string, reserve: boolean) => void;
+  onReject: (offerId: string) => void;
+  onCounter: (offerId: string, amount: number, message: string) => void;
+}
+
+const statusStyles: Record<Offer['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  COUNTERED: 'bg-gray-100 text-gray-700',
+  EXPIRED: 'bg-gray-100 text-gray-500'
+};
+
+const OfferCard: React.FC<OfferCardProps> = ({ offer, currentUserId, onAccept, onReject, onCounter }) => {
+  const [reserve, setReserve] = useState(true);
+  const [showCounter, setShowCounter] = useState(false);
+  const [counterAmount, setCounterAmount] = useState('');
+  const [counterMessage, setCounterMessage] = useState('');
+
+  const isMine = offer.proposedById === currentUserId;
+  const isSeller = offer.sellerId === currentUserId;
+  const canRespond = !isMine && offer.status === 'PENDING' && new Date(offer.expiresAt) > new Date();
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(counterAmount);
+    if (!amount || amount <= 0) return;
+
+    onCounter(offer.id, amount, counterMessage.trim());
+    setShowCounter(false);
+    setCounterAmount('');
+    setCounterMessage('');
+  };
+
+  return (
+    <div className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+      <div className="w-full max-w-[70%] rounded-lg border border-blue-200 bg-blue-50 p-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-blue-900">
+            <Tag className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {isMine ? 'You' : offer.proposedBy.firstName} offered ${offer.amount}
+            </span>
+          </div>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusStyles[offer.status]}`}>
+            {offer.status.toLowerCase()}
+          </span>
+        </div>
+
+        {offer.message && (
+          <p className="text-sm text-gray-700 mt-2">{offer.message}</p>
+        )}
+
+        <p className="text-xs text-gray-500 mt-1">
+          {formatDistanceToNow(new Date(offer.createdAt), { addSuffix: true })}
+          {offer.status === 'PENDING' && ` · expires ${formatDistanceToNow(new Date(offer.expiresAt), { addSuffix: true })}`}
+        </p>
+
+        {offer.status === 'ACCEPTED' && offer.product.reservedForId === offer.buyerId && offer.product.reservedUntil && (
+          <p className="text-xs text-green-700 mt-1">
+            Reserved for the buyer until {new Date(offer.product.reservedUntil).toLocaleString()}
+          </p>
+        )}
+
+        {canRespond && !showCounter && (
+          <div className="mt-3 space-y-2">
+            {isSeller && (
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={reserve}
+                  onChange={(e) => setReserve(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Reserve the item for the buyer
+              </label>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => onAccept(offer.id, isSeller && reserve)}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => setShowCounter(true)}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                Counter
+              </button>
+              <button
+                onClick={() => onReject(offer.id)}
+                className="px-3 py-1 text-sm bg-white border border-red-300 text-red-600 rounded-md hover:bg-red-50"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showCounter && (
+          <form onSubmit={handleCounter} className="mt-3 space-y-2">
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              required
+              value={counterAmount}
+              onChange={(e) => setCounterAmount(e.target.value)}
+              placeholder="Your price"
+              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              maxLength={500}
+              value={counterMessage}
+              onChange={(e) => setCounterMessage(e.target.value)}
+              placeholder="Message (optional)"
+              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Send counter
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowCounter(false)}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfferCard;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { UserPresence } from '../../types';
+
+interface PresenceStatusProps {
+  presence?: UserPresence | null;
+  className?: string;
+}
+
+// "Online" with a green dot, or when the user was last seen
+const PresenceStatus: React.FC<PresenceStatusProps> = ({ presence, className = '' }) => {
+  if (presence?.isOnline) {
+    return (
+      <span className={`inline-flex items-center gap-1 text-green-600 ${className}`}>
+        <span className="h-2 w-2 rounded-full bg-green-500" />
+        Online
+      </span>
+    );
+  }
+
+  if (!presence?.lastSeenAt) return null;
+
+  return (
+    <span className={`inline-block text-gray-500 ${className}`}>
+      Last seen {formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}
+    </span>
+  );
+};
+
+export default PresenceStatus;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { productAPI, wishlistAPI } from '../../lib/api';
+import { Product, WishlistItem } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface ShareListingPickerProps {
+  onSelect: (product: Product) => void;
+  onClose: () => void;
+}
+
+// Pick one of your active listings or saved items to share as a card
+const ShareListingPicker: React.FC<ShareListingPickerProps> = ({ onSelect, onClose }) => {
+  const { user } = useAuth();
+  const [ownListings, setOwnListings] = useState<Product[]>([]);
+  const [savedListings, setSavedListings] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchListings = async () => {
+      try {
+        const [productsResponse, wishlistResponse] = await Promise.all([
+          productAPI.getUserProducts(user.id, { limit: 20, status: 'ACTIVE' }),
+          wishlistAPI.getWishlist({ limit: 20 })
+        ]);
+        setOwnListings(productsResponse.data.data.products);
+        setSavedListings(
+          (wishlistResponse.data.data.items as WishlistItem[])
+            .map(item => item.product)
+            .filter(product => product.status === 'ACTIVE')
+        );
+      } catch (error) {
+        console.error('Failed to load listings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchListings();
+  }, [user]);
+
+  const renderSection = (title: string, products: Product[]) => products.length > 0 && (
+    <div>
+      <p className="px-3 pt-2 pb-1 text-xs font-medium uppercase text-gray-500">{title}</p>
+      {products.map((product) => (
+        <button
+          key={product.id}
+          type="button"
+          onClick={() => onSelect(product)}
+          className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-50"
+        >
+          {product.images?.[0] ? (
+            <img src={product.images[0]} alt="" className="w-8 h-8 object-cover rounded flex-shrink-0" />
+          ) : (
+            <div className="w-8 h-8 bg-gray-100 rounded flex-shrink-0" />
+          )}
+          <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">{product.title}</span>
+          <span className="text-sm text-gray-500">${product.price}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-80 max-h-72 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <p className="text-sm font-medium text-gray-900">Share a listing</p>
+        <button type="button" onClick={onClose} className="text-sm text-gray-500 hover:text-gray-900">
+          Close
+        </button>
+      </div>
+      {loading ? (
+        <p className="px-3 py-4 text-sm text-gray-500">Loading...</p>
+      ) : ownListings.length === 0 && savedListings.length === 0 ? (
+        <p className="px-3 py-4 text-sm text-gray-500">No active listings or saved items to share.</p>
+      ) : (
+        <>
+          {renderSection('Your listings', ownListings)}
+          {renderSection('Saved items', savedListings)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShareListingPicker;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { useSocket } from '../../contexts/SocketContext';
+import { messageAPI } from '../../lib/api';
+import { MessageUnreadCount } from '../../types';
+
+// Unread message count for the Messages link, loaded once and then kept
+// current by the message-unread-count socket event
+const UnreadMessagesBadge: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { socket } = useSocket();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    messageAPI.getUnreadCount()
+      .then(response => setUnreadCount(response.data.data.unreadCount))
+      .catch(error => console.error('Failed to load unread messages:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleCount = (counts: MessageUnreadCount) => {
+      setUnreadCount(counts.unreadCount);
+    };
+
+    socket.on('message-unread-count', handleCount);
+    return () => {
+      socket.off('message-unread-count', handleCount);
+    };
+  }, [socket]);
+
+  if (unreadCount === 0) return null;
+
+  return (
+    <span
+      className={`min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-blue-600 text-white text-xs font-medium ${className}`}
+      aria-label={`${unreadCount} unread messages`}
+    >
+      {unreadCount > 99 ? '99+' : unreadCount}
+    </span>
+  );
+};
+
+export default UnreadMessagesBadge;
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { notificationAPI } from '../../lib/api';
+import { useSocket } from '../../contexts/SocketContext';
+import { Notification } from '../../types';
+
+const PAGE_SIZE = 20;
+
+// Where a notification leads: its conversation, then its listing
+const getNotificationLink = (notification: Notification) => {
+  const data = notification.data || {};
+  if (typeof data.conversationId === 'string') return `/messages/${data.conversationId}`;
+  if (typeof data.productId === 'string') return `/product/${data.productId}`;
+  if (notification.type === 'REVIEW') return '/profile';
+  return null;
+};
+
+// Bell with the unread count; opens the inbox, newest first with older
+// pages loaded on demand
+const NotificationBell: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [before, setBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { socket } = useSocket();
+
+  useEffect(() => {
+    notificationAPI.getUnreadCount()
+      .then(response => setUnreadCount(response.data.data.unreadCount))
+      .catch(error => console.error('Failed to load notification count:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleNotification = (notification: Notification) => {
+      setUnreadCount(count => count + 1);
+      setNotifications(prev => [notification, ...prev.filter(existing => existing.id !== notification.id)]);
+    };
+
+    const handleCount = ({ unreadCount }: { unreadCount: number }) => {
+      setUnreadCount(unreadCount);
+    };
+
+    socket.on('notification', handleNotification);
+    socket.on('notification-count', handleCount);
+
+    return () => {
+      socket.off('notification', handleNotification);
+      socket.off('notification-count', handleCount);
+    };
+  }, [socket]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const loadNotifications = async (cursor?: string) => {
+    setLoading(true);
+    try {
+      const response = await notificationAPI.getNotifications({ before: cursor, limit: PAGE_SIZE });
+      const { notifications: page, unreadCount, pagination } = response.data.data;
+      setNotifications(prev => cursor ? [...prev, ...page] : page);
+      setUnreadCount(unreadCount);
+      setBefore(pagination.before);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      toast.error('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!open) loadNotifications();
+    setOpen(!open);
+  };
+
+  const handleOpenNotification = (notification: Notification) => {
+    setOpen(false);
+    if (!notification.isRead) {
+      setNotifications(prev => prev.map(existing =>
+        existing.id === notification.id ? { ...existing, isRead: true } : existing
+      ));
+      setUnreadCount(count => Math.max(0, count - 1));
+      notificationAPI.markRead(notification.id).catch(error =>
+        console.error('Failed to mark notification as read:', error)
+      );
+    }
+
+    const link = getNotificationLink(notification);
+    if (link) navigate(link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationAPI.markAllRead();
+      setNotifications(prev => prev.map(notification => ({ ...notification, isRead: true })));
+      setUnreadCount(0);
+    } catch {
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative p-2 rounded-full text-gray-600 hover:bg-gray-100 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-medium">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white rounded-md shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <p className="font-medium text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={handleMarkAllRead}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {loading ? 'Loading...' : "You're all caught up"}
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full flex gap-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                    notification.isRead ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 rounded-full flex-shrink-0 ${
+                      notification.isRead ? 'bg-transparent' : 'bg-blue-600'
+                    }`}
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium text-gray-900">{notification.title}</span>
+                    <span className="block text-sm text-gray-600 line-clamp-2">{notification.body}</span>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {before && notifications.length > 0 && (
+            <button
+              type="button"
+              onClick={() => loadNotifications(before)}
+              disabled={loading}
+              className="w-full px-4 py-2 text-sm text-blue-600 hover:bg-gray-50 border-t border-gray-200 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load older'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
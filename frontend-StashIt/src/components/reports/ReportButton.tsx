@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Flag } from 'lucide-react';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { reportAPI } from '../../lib/api';
+import { ApiError, ReportReason, ReportTargetType } from '../../types';
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  label?: string;
+  className?: string;
+}
+
+const REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'SCAM', label: 'Scam or fraud' },
+  { value: 'SPAM', label: 'Spam' },
+  { value: 'ABUSE', label: 'Harassment or abuse' },
+  { value: 'PROHIBITED_ITEM', label: 'Prohibited item' },
+  { value: 'OTHER', label: 'Something else' },
+];
+
+// Flag link that opens a small dialog for reporting a listing, user or message
+const ReportButton: React.FC<ReportButtonProps> = ({ targetType, targetId, label = 'Report', className = '' }) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('SCAM');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await reportAPI.create({ targetType, targetId, reason, details: details.trim() });
+      toast.success('Thanks, a moderator will take a look');
+      setOpen(false);
+      setDetails('');
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to submit report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`inline-flex items-center gap-1 text-sm text-gray-500 hover:text-red-600 ${className}`}
+      >
+        <Flag className="h-4 w-4" />
+        {label}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <form onSubmit={handleSubmit} className="w-full max-w-md bg-white rounded-lg shadow-lg p-6 space-y-4 text-left">
+            <h2 className="text-lg font-medium text-gray-900">{label}</h2>
+            <div className="space-y-2">
+              {REASONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="reason"
+                    value={option.value}
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              placeholder="Anything else the moderators should know? (optional)"
+              className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit report'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReportButton;
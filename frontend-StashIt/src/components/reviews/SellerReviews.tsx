@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { userAPI } from '../../lib/api';
+import { Reputation, Review } from '../../types';
+import StarRating from './StarRating';
+
+// Reputation summary and latest reviews for a seller card
+const SellerReviews: React.FC<{ sellerId: string }> = ({ sellerId }) => {
+  const [reputation, setReputation] = useState<Reputation | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        const [profileResponse, reviewsResponse] = await Promise.all([
+          userAPI.getPublicProfile(sellerId),
+          userAPI.getUserReviews(sellerId, { limit: 3 })
+        ]);
+        setReputation(profileResponse.data.data.user.reputation);
+        setReviews(reviewsResponse.data.data.reviews);
+      } catch (error) {
+        console.error('Error fetching seller reviews:', error);
+      }
+    };
+
+    fetchReviews();
+  }, [sellerId]);
+
+  if (!reputation) return null;
+
+  return (
+    <div className="mt-4">
+      {reputation.averageRating !== null ? (
+        <div className="flex items-center gap-2">
+          <StarRating rating={reputation.averageRating} />
+          <span className="text-sm text-gray-700">
+            {reputation.averageRating.toFixed(1)} ({reputation.reviewCount} review{reputation.reviewCount === 1 ? '' : 's'})
+          </span>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No reviews yet</p>
+      )}
+      {reputation.completedSales > 0 && (
+        <p className="text-sm text-gray-500 mt-1">
+          {reputation.completedSales} completed sale{reputation.completedSales === 1 ? '' : 's'}
+        </p>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {reviews.map((review) => (
+            <li key={review.id} className="border-l-2 border-gray-200 pl-3">
+              <div className="flex items-center gap-2">
+                <StarRating rating={review.rating} />
+                <span className="text-xs text-gray-500">
+                  {review.reviewer.firstName} · {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+              {review.comment && (
+                <p className="text-sm text-gray-700 mt-1">{review.comment}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SellerReviews;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number;
+  size?: 'sm' | 'md';
+  onChange?: (rating: number) => void;
+}
+
+// Read-only stars, or a picker when onChange is given
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 'sm', onChange }) => {
+  const iconSize = size === 'sm' ? 'h-4 w-4' : 'h-6 w-6';
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((value) => {
+        const filled = value <= Math.round(rating);
+        const icon = (
+          <Star className={`${iconSize} ${filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        );
+
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value)}
+            aria-label={`${value} star${value > 1 ? 's' : ''}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={value}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
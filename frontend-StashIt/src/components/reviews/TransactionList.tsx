@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { userAPI } from '../../lib/api';
+import { ApiError, Transaction } from '../../types';
+import StarRating from './StarRating';
+
+// The signed-in user's purchases and sales, with a form to review the other party
+const TransactionList: React.FC = () => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchTransactions = async () => {
+      try {
+        const response = await userAPI.getTransactions();
+        setTransactions(response.data.data.transactions);
+      } catch (error) {
+        console.error('Failed to fetch transactions:', error);
+      }
+    };
+
+    fetchTransactions();
+  }, []);
+
+  const startReview = (transactionId: string) => {
+    setReviewingId(transactionId);
+    setRating(0);
+    setComment('');
+  };
+
+  const handleSubmitReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reviewingId || rating === 0) {
+      toast.error('Please choose a rating');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await userAPI.createReview(reviewingId, { rating, comment: comment.trim() });
+      setTransactions(prev => prev.map(transaction =>
+        transaction.id === reviewingId
+          ? { ...transaction, myReview: { rating, comment: comment.trim() } }
+          : transaction
+      ));
+      setReviewingId(null);
+      toast.success('Review submitted');
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="mt-8 border-t pt-8">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Purchases & Sales</h2>
+      <div className="space-y-3">
+        {transactions.map((transaction) => {
+          const otherParty = transaction.role === 'SELLER' ? transaction.buyer : transaction.seller;
+
+          return (
+            <div key={transaction.id} className="p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <Link
+                    to={`/product/${transaction.product.id}`}
+                    className="text-sm font-medium text-gray-900 hover:text-blue-600 truncate block"
+                  >
+                    {transaction.product.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {transaction.role === 'SELLER' ? 'Sold to' : 'Bought from'} {otherParty.firstName} {otherParty.lastName}
+                    {' · '}${transaction.price}
+                    {' · '}{format(new Date(transaction.completedAt), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                {transaction.myReview ? (
+                  <StarRating rating={transaction.myReview.rating} />
+                ) : reviewingId !== transaction.id && (
+                  <button
+                    onClick={() => startReview(transaction.id)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 whitespace-nowrap"
+                  >
+                    Leave a review
+                  </button>
+                )}
+              </div>
+
+              {reviewingId === transaction.id && (
+                <form onSubmit={handleSubmitReview} className="mt-3 space-y-2">
+                  <StarRating rating={rating} size="md" onChange={setRating} />
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    maxLength={1000}
+                    rows={2}
+                    placeholder={`How was dealing with ${otherParty.firstName}? (optional)`}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={submitting}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {submitting ? 'Submitting...' : 'Submit review'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setReviewingId(null)}
+                      className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {transaction.theirReview && (
+                <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                  <span>{otherParty.firstName} rated you</span>
+                  <StarRating rating={transaction.theirReview.rating} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionList;
@@ -0,0 +1,20 @@
+import React from 'react';
+
+// Renders a search snippet whose matched words are wrapped in <mark> tags.
+// The rest of the snippet is listing text, so it is rendered as text rather
+// than parsed as HTML.
+const HighlightedText: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Heart } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import { wishlistAPI } from '../../lib/api';
+import { ApiError } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface WishlistButtonProps {
+  productId: string;
+  saved: boolean;
+  onChange?: (productId: string, saved: boolean) => void;
+  className?: string;
+}
+
+const WishlistButton: React.FC<WishlistButtonProps> = ({ productId, saved, onChange, className = '' }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [isSaved, setIsSaved] = useState(saved);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    setIsSaved(saved);
+  }, [saved]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // The button is rendered inside product card links
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    if (pending) return;
+    setPending(true);
+
+    try {
+      if (isSaved) {
+        await wishlistAPI.removeProduct(productId);
+        toast.success('Removed from wishlist');
+      } else {
+        await wishlistAPI.addProduct(productId);
+        toast.success('Saved to wishlist');
+      }
+      setIsSaved(!isSaved);
+      onChange?.(productId, !isSaved);
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to update wishlist');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={pending}
+      aria-label={isSaved ? 'Remove from wishlist' : 'Save to wishlist'}
+      className={`p-2 rounded-full bg-white shadow-md hover:shadow-lg transition-all disabled:opacity-50 ${className}`}
+    >
+      <Heart className={`w-5 h-5 ${isSaved ? 'fill-red-500 text-red-500' : 'text-gray-600'}`} />
+    </button>
+  );
+};
+
+export default WishlistButton;
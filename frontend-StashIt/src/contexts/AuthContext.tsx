@@ -37,6 +37,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         } catch (error) {
           // Token is invalid, clear storage
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
           localStorage.removeItem('user');
           setToken(null);
           setUser(null);
@@ -51,11 +52,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const login = async (email: string, password: string) => {
     try {
       const response = await authAPI.login({ email, password });
-      const { token: newToken, user: userData } = response.data.data;
+      const { token: newToken, refreshToken, user: userData } = response.data.data;
 
       setToken(newToken);
       setUser(userData);
       localStorage.setItem('token', newToken);
+      localStorage.setItem('refreshToken', refreshToken);
       localStorage.setItem('user', JSON.stringify(userData));
 
       toast.success('Login successful!');
@@ -69,14 +71,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const register = async (data: RegisterData) => {
     try {
       const response = await authAPI.register(data);
-      const { token: newToken, user: userData } = response.data.data;
+      const { token: newToken, refreshToken, user: userData } = response.data.data;
 
       setToken(newToken);
       setUser(userData);
       localStorage.setItem('token', newToken);
+      localStorage.setItem('refreshToken', refreshToken);
       localStorage.setItem('user', JSON.stringify(userData));
 
-      toast.success('Registration successful!');
+      toast.success('Registration successful! Check your email to verify your account.');
     } catch (error: any) {
       const message = error.response?.data?.message || 'Registration failed';
       toast.error(message);
@@ -94,6 +97,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setToken(null);
     setUser(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     toast.success('Logged out successfully');
   };
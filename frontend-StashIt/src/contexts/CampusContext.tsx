@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { collegeAPI } from '../lib/api';
+import { College } from '../types';
+import { CampusContext } from '../hooks/useCampus';
+
+export const CampusProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [campus, setCampusState] = useState(() => localStorage.getItem('campus') || '');
+  const [colleges, setColleges] = useState<College[]>([]);
+
+  useEffect(() => {
+    collegeAPI.getColleges()
+      .then((response) => setColleges(response.data.data.colleges))
+      .catch((error) => console.error('Failed to fetch colleges:', error));
+  }, []);
+
+  const setCampus = (value: string) => {
+    setCampusState(value);
+    if (value) {
+      localStorage.setItem('campus', value);
+    } else {
+      localStorage.removeItem('campus');
+    }
+  };
+
+  return (
+    <CampusContext.Provider value={{ campus, setCampus, colleges }}>
+      {children}
+    </CampusContext.Provider>
+  );
+};
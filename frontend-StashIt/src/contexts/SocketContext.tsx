@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import toast from 'react-hot-toast';
 import { useAuth } from './AuthContext';
+import { refreshAccessToken } from '../lib/api';
+import { Notification } from '../types';
 
 interface SocketContextType {
   socket: Socket | null;
@@ -29,15 +32,33 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       return;
     }
 
+    // Read the token on every (re)connect since it is refreshed in the background
     const newSocket = io('http://localhost:3005', {
-      auth: { token }
+      auth: (cb) => cb({ token: localStorage.getItem('token') })
     });
 
+    // Refresh once when the stored access token has expired, then reconnect;
+    // the client doesn't retry a connection the server rejected
+    let refreshedForReconnect = false;
+
     newSocket.on('connect', () => {
       console.log('Socket connected');
+      refreshedForReconnect = false;
       setIsConnected(true);
     });
 
+    newSocket.on('connect_error', async (error) => {
+      if (newSocket.active || refreshedForReconnect || error.message === 'Account suspended') return;
+
+      refreshedForReconnect = true;
+      try {
+        await refreshAccessToken(localStorage.getItem('token'));
+        newSocket.connect();
+      } catch {
+        console.error('Socket authentication failed:', error);
+      }
+    });
+
     newSocket.on('disconnect', () => {
       console.log('Socket disconnected');
       setIsConnected(false);
@@ -47,6 +68,17 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       console.error('Socket error:', error);
     });
 
+    newSocket.on('notification', (notification: Notification) => {
+      // The open conversation already shows its new messages
+      if (
+        notification.type === 'NEW_MESSAGE' &&
+        window.location.pathname === `/messages/${notification.data?.conversationId}`
+      ) {
+        return;
+      }
+      toast(`${notification.title}: ${notification.body}`, { icon: '🔔' });
+    });
+
     setSocket(newSocket);
 
     return () => {
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { College } from '../types';
+
+interface CampusContextType {
+  // '' = default (the user's own campus when signed in), 'all' = every
+  // campus, otherwise a college name
+  campus: string;
+  setCampus: (campus: string) => void;
+  colleges: College[];
+}
+
+export const CampusContext = createContext<CampusContextType>({
+  campus: '',
+  setCampus: () => {},
+  colleges: []
+});
+
+export const useCampus = () => useContext(CampusContext);
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useSocket } from '../contexts/SocketContext';
+import { UserPresence } from '../types';
+
+type PresenceAcknowledgement =
+  | { success: true; presence: Record<string, UserPresence> }
+  | { success: false; error: string };
+
+// Live presence of conversation partners, keyed by user id. The users are
+// watched again on every reconnect, which also refreshes what was missed.
+export const usePresence = (userIds: string[]) => {
+  const { socket, isConnected } = useSocket();
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const watchKey = [...new Set(userIds)].sort().join(',');
+
+  useEffect(() => {
+    if (!socket || !isConnected || !watchKey) return;
+
+    const watchedIds = watchKey.split(',');
+    let active = true;
+
+    const handlePresenceChanged = ({ userId, ...change }: UserPresence & { userId: string }) => {
+      if (!watchedIds.includes(userId)) return;
+      setPresence(prev => ({ ...prev, [userId]: change }));
+    };
+
+    socket.on('presence-changed', handlePresenceChanged);
+    socket.emit('watch-presence', { userIds: watchedIds }, (response: PresenceAcknowledgement) => {
+      if (active && response.success) {
+        setPresence(prev => ({ ...prev, ...response.presence }));
+      }
+    });
+
+    return () => {
+      active = false;
+      socket.off('presence-changed', handlePresenceChanged);
+    };
+  }, [socket, isConnected, watchKey]);
+
+  return presence;
+};
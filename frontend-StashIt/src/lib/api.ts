@@ -1,4 +1,16 @@
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import {
+  AdvancedSearchParams,
+  ConversationFilter,
+  MessageHistoryParams,
+  NotificationPreferences,
+  OutgoingAttachment,
+  ProductStatus,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+  SavedSearchFilters
+} from '../types';
 
 // API Gateway runs on port 3000; all requests go through the gateway
 const API_BASE_URL = 'http://localhost:3000/api';
@@ -18,16 +30,79 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Handle auth errors
+const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  window.location.href = '/login';
+};
+
+// Shared between requests that fail at the same time so the refresh
+// token is only exchanged once
+let refreshPromise: Promise<string> | null = null;
+
+const exchangeRefreshToken = async (expiredToken: string | null) => {
+  // Another tab already refreshed while this one waited for the lock
+  const currentToken = localStorage.getItem('token');
+  if (currentToken && currentToken !== expiredToken) {
+    return currentToken;
+  }
+
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token');
+  }
+
+  // Plain axios so the refresh request skips these interceptors
+  const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+  const { token, refreshToken: newRefreshToken } = response.data.data;
+  localStorage.setItem('token', token);
+  localStorage.setItem('refreshToken', newRefreshToken);
+  return token as string;
+};
+
+// Get a new access token in place of expiredToken. Tabs share the refresh
+// token, and sending one that was already rotated signs the session out, so
+// only one tab at a time may exchange it.
+export const refreshAccessToken = (expiredToken: string | null) => {
+  if (!refreshPromise) {
+    const refresh = () => exchangeRefreshToken(expiredToken);
+    refreshPromise = ('locks' in navigator
+      ? navigator.locks.request('stashit-token-refresh', refresh)
+      : refresh()
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Handle auth errors by refreshing the access token and retrying once
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
+  async (error) => {
+    const originalRequest: (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined = error.config;
+    const isAuthRequest = originalRequest?.url?.startsWith('/auth/');
+
+    if (error.response?.status !== 401 || !originalRequest || isAuthRequest) {
+      return Promise.reject(error);
+    }
+
+    if (originalRequest._retry) {
+      clearSession();
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+    try {
+      const expiredToken = String(originalRequest.headers.Authorization || '').replace('Bearer ', '') || null;
+      const token = await refreshAccessToken(expiredToken);
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch {
+      clearSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
@@ -36,14 +111,41 @@ export const authAPI = {
   register: (data: any) => api.post('/auth/register', data),
   login: (data: any) => api.post('/auth/login', data),
   logout: () => api.post('/auth/logout'),
-  refreshToken: () => api.post('/auth/refresh'),
+  refreshToken: (refreshToken: string) => api.post('/auth/refresh', { refreshToken }),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (sessionId: string) => api.delete(`/auth/sessions/${sessionId}`),
+  revokeOtherSessions: () => api.delete('/auth/sessions'),
+  verifyEmail: (data: { token: string } | { email: string; code: string }) =>
+    api.post('/auth/verify-email', data),
+  resendVerification: () => api.post('/auth/resend-verification'),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  resetPassword: (token: string, password: string) =>
+    api.post('/auth/reset-password', { token, password }),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    api.post('/auth/change-password', { currentPassword, newPassword }),
 };
 
 export const userAPI = {
   getProfile: () => api.get('/users/profile'),
   updateProfile: (data: any) => api.put('/users/profile', data),
-  getPublicProfile: (userId: string) => api.get(`/users/${userId}/profile`),
+  getPublicProfile: (userId: string) => api.get(`/users/${userId}/public`),
+  getUserReviews: (userId: string, params?: { page?: number; limit?: number }) =>
+    api.get(`/users/${userId}/reviews`, { params }),
+  getTransactions: () => api.get('/users/transactions'),
+  createReview: (transactionId: string, data: { rating: number; comment?: string }) =>
+    api.post(`/users/transactions/${transactionId}/reviews`, data),
   getUserStats: (userId: string) => api.get(`/users/${userId}/stats`),
+  getBlockedUsers: () => api.get('/users/blocks'),
+  blockUser: (userId: string) => api.post(`/users/blocks/${userId}`),
+  unblockUser: (userId: string) => api.delete(`/users/blocks/${userId}`),
+  getNotificationPreferences: () => api.get('/users/notification-preferences'),
+  updateNotificationPreferences: (data: Partial<NotificationPreferences>) =>
+    api.put('/users/notification-preferences', data),
+};
+
+export const collegeAPI = {
+  getColleges: (params?: { search?: string }) => api.get('/colleges', { params }),
+  lookupByEmail: (email: string) => api.get('/colleges', { params: { email } }),
 };
 
 export const productAPI = {
@@ -56,6 +158,11 @@ export const productAPI = {
   getCategories: () => api.get('/products/categories'),
   updateAvailability: (productId: string, isAvailable: boolean) => 
     api.patch(`/products/${productId}/availability`, { isAvailable }),
+  updateStatus: (
+    productId: string,
+    data: { status: ProductStatus; reservedForId?: string; reservedUntil?: string; buyerId?: string; salePrice?: number }
+  ) => api.patch(`/products/${productId}/status`, data),
+  getBuyers: (productId: string) => api.get(`/products/${productId}/buyers`),
   uploadProductImages: (id: string, images: FormData) => api.post(`/products/${id}/images`, images, {
     headers: { 'Content-Type': 'multipart/form-data' }
   }),
@@ -70,16 +177,73 @@ export const searchAPI = {
   getPopularSearches: () => api.get('/search/popular'),
   getRecentSearches: () => api.get('/search/recent'),
   getCategories: () => api.get('/search/categories'),
-  advancedSearch: (filters: any) => api.post('/search/advanced', filters),
+  advancedSearch: (filters: AdvancedSearchParams) => api.post('/search/advanced', filters),
+  getSavedSearches: () => api.get('/search/saved'),
+  saveSearch: (data: { name: string; filters: SavedSearchFilters; notify?: boolean }) =>
+    api.post('/search/saved', data),
+  updateSavedSearch: (savedSearchId: string, data: { name?: string; filters?: SavedSearchFilters; notify?: boolean }) =>
+    api.put(`/search/saved/${savedSearchId}`, data),
+  deleteSavedSearch: (savedSearchId: string) => api.delete(`/search/saved/${savedSearchId}`),
 };
 
 export const messageAPI = {
   createConversation: (data: { productId: string; receiverId: string }) => 
     api.post('/messages/conversation', data),
-  getConversations: (params?: any) => api.get('/messages/conversations', { params }),
-  getConversationMessages: (conversationId: string, params?: any) =>   
+  getConversations: (params?: { filter?: ConversationFilter; page?: number; limit?: number }) =>
+    api.get('/messages/conversations', { params }),
+  updateConversationState: (
+    conversationId: string,
+    data: { archived?: boolean; muted?: boolean; pinned?: boolean }
+  ) => api.patch(`/messages/conversation/${conversationId}/state`, data),
+  deleteConversation: (conversationId: string) =>
+    api.delete(`/messages/conversation/${conversationId}`),
+  getConversationMessages: (conversationId: string, params?: MessageHistoryParams) =>
     api.get(`/messages/conversation/${conversationId}`, { params }),
+  getUnreadCount: () => api.get('/messages/unread-count'),
   getOnlineUsers: () => api.get('/messages/online'),
-  sendMessage: (conversationId: string, data: { content: string }) => 
-    api.post(`/messages/conversation/${conversationId}`, data),
-}; 
\ No newline at end of file
+  getOffers: (conversationId: string) =>
+    api.get(`/messages/conversation/${conversationId}/offers`),
+  sendMessage: (
+    conversationId: string,
+    data: { content: string; attachments?: OutgoingAttachment[]; clientMessageId?: string }
+  ) => api.post(`/messages/conversation/${conversationId}`, data),
+  uploadAttachmentImages: (images: FormData) => api.post('/messages/attachments/images', images, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  }),
+};
+
+export const wishlistAPI = {
+  getWishlist: (params?: { page?: number; limit?: number }) => api.get('/wishlist', { params }),
+  getWishlistIds: () => api.get('/wishlist/ids'),
+  getCount: () => api.get('/wishlist/count'),
+  checkProduct: (productId: string) => api.get(`/wishlist/check/${productId}`),
+  addProduct: (productId: string) => api.post(`/wishlist/${productId}`),
+  removeProduct: (productId: string) => api.delete(`/wishlist/${productId}`),
+  clear: () => api.delete('/wishlist/clear'),
+};
+
+export const notificationAPI = {
+  getNotifications: (params?: { before?: string; limit?: number; unread?: boolean }) =>
+    api.get('/notifications', { params }),
+  getUnreadCount: () => api.get('/notifications/unread-count'),
+  markRead: (notificationId: string) => api.put(`/notifications/${notificationId}/read`),
+  markAllRead: () => api.put('/notifications/read-all'),
+};
+
+export const reportAPI = {
+  create: (data: { targetType: ReportTargetType; targetId: string; reason: ReportReason; details?: string }) =>
+    api.post('/reports', data),
+};
+
+export const adminAPI = {
+  getReports: (params?: { status?: ReportStatus | 'all'; targetType?: ReportTargetType; page?: number; limit?: number }) =>
+    api.get('/admin/reports', { params }),
+  resolveReport: (reportId: string, data: { status: 'RESOLVED' | 'DISMISSED'; resolution?: string }) =>
+    api.patch(`/admin/reports/${reportId}`, data),
+  hideProduct: (productId: string, reason?: string) =>
+    api.post(`/admin/products/${productId}/hide`, { reason }),
+  restoreProduct: (productId: string) => api.post(`/admin/products/${productId}/restore`),
+  suspendUser: (userId: string, reason?: string) =>
+    api.post(`/admin/users/${userId}/suspend`, { reason }),
+  unsuspendUser: (userId: string) => api.post(`/admin/users/${userId}/unsuspend`),
+};
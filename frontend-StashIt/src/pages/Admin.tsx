@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { Shield } from 'lucide-react';
+import { adminAPI } from '../lib/api';
+import { ApiError, Pagination, Report, ReportReason, ReportStatus } from '../types';
+
+const STATUS_FILTERS: { value: ReportStatus | 'all'; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'RESOLVED', label: 'Resolved' },
+  { value: 'DISMISSED', label: 'Dismissed' },
+  { value: 'all', label: 'All' }
+];
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  SCAM: 'Scam',
+  SPAM: 'Spam',
+  ABUSE: 'Abuse',
+  PROHIBITED_ITEM: 'Prohibited item',
+  OTHER: 'Other'
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as AxiosError<ApiError>).response?.data?.message || fallback;
+
+// Moderation queue: review reports, hide listings and suspend users
+const Admin: React.FC = () => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | 'all'>('OPEN');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await adminAPI.getReports({ status: statusFilter, page });
+      setReports(response.data.data.reports);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load reports'));
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, page]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      fetchReports();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Moderation action failed'));
+    }
+  };
+
+  const handleResolve = (report: Report, status: 'RESOLVED' | 'DISMISSED') => {
+    const resolution = window.prompt(status === 'RESOLVED' ? 'Resolution note (optional)' : 'Reason for dismissing (optional)');
+    if (resolution === null) return;
+    runAction(
+      () => adminAPI.resolveReport(report.id, { status, resolution: resolution.trim() }),
+      status === 'RESOLVED' ? 'Report resolved' : 'Report dismissed'
+    );
+  };
+
+  const handleHideProduct = (productId: string) => {
+    const reason = window.prompt('Why is this listing being hidden? (optional)');
+    if (reason === null) return;
+    runAction(() => adminAPI.hideProduct(productId, reason.trim() || undefined), 'Listing hidden');
+  };
+
+  const handleSuspendUser = (userId: string) => {
+    const reason = window.prompt('Why is this user being suspended? (optional)');
+    if (reason === null) return;
+    runAction(() => adminAPI.suspendUser(userId, reason.trim() || undefined), 'User suspended');
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-2 mb-6">
+        <Shield className="h-6 w-6 text-blue-600" />
+        <h1 className="text-2xl font-bold text-gray-900">Moderation</h1>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => {
+              setStatusFilter(filter.value);
+              setPage(1);
+            }}
+            className={`px-3 py-1.5 text-sm rounded-full ${
+              statusFilter === filter.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-gray-500 text-center py-12">No reports here.</p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <div key={report.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                      {REASON_LABELS[report.reason]}
+                    </span>
+                    <span className="text-xs text-gray-500 capitalize">
+                      {report.targetType.toLowerCase()} · {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{report.reporter.firstName} {report.reporter.lastName}</span>
+                    {' reported '}
+                    <span className="font-medium">{report.reportedUser.firstName} {report.reportedUser.lastName}</span>
+                    <span className="text-gray-500"> ({report.reportedUser.email})</span>
+                    {report.reportedUser.isSuspended && (
+                      <span className="ml-2 text-xs font-medium text-red-600">Suspended</span>
+                    )}
+                  </p>
+                  {report.product && (
+                    <p className="text-sm text-gray-700 mt-1">
+                      Listing:{' '}
+                      <Link to={`/product/${report.product.id}`} className="text-blue-600 hover:text-blue-500">
+                        {report.product.title}
+                      </Link>
+                      <span className="text-xs text-gray-500 ml-2 capitalize">{report.product.status.toLowerCase()}</span>
+                    </p>
+                  )}
+                  {report.message && (
+                    <blockquote className="mt-2 border-l-2 border-gray-200 pl-3 text-sm text-gray-700">
+                      {report.message.content}
+                    </blockquote>
+                  )}
+                  {report.details && (
+                    <p className="mt-2 text-sm text-gray-600">{report.details}</p>
+                  )}
+                  {report.status !== 'OPEN' && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      {report.status === 'RESOLVED' ? 'Resolved' : 'Dismissed'}
+                      {report.resolvedBy && ` by ${report.resolvedBy.firstName} ${report.resolvedBy.lastName}`}
+                      {report.resolution && `: ${report.resolution}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-4">
+                {report.status === 'OPEN' && (
+                  <>
+                    <button
+                      onClick={() => handleResolve(report, 'RESOLVED')}
+                      className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+                    >
+                      Resolve
+                    </button>
+                    <button
+                      onClick={() => handleResolve(report, 'DISMISSED')}
+                      className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                )}
+                {report.product && (report.product.status === 'REMOVED' ? (
+                  <button
+                    onClick={() => runAction(() => adminAPI.restoreProduct(report.product!.id), 'Listing restored')}
+                    className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                  >
+                    Restore listing
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleHideProduct(report.product!.id)}
+                    className="px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+                  >
+                    Hide listing
+                  </button>
+                ))}
+                {report.reportedUser.isSuspended ? (
+                  <button
+                    onClick={() => runAction(() => adminAPI.unsuspendUser(report.reportedUser.id), 'Suspension lifted')}
+                    className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                  >
+                    Lift suspension
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleSuspendUser(report.reportedUser.id)}
+                    className="px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+                  >
+                    Suspend user
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex justify-center items-center gap-4 mt-8">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {pagination.page} of {pagination.pages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.pages}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Admin;
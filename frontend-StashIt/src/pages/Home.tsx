@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { Product } from '../types';
 import { productAPI } from '../lib/api';
+import { useCampus } from '../hooks/useCampus';
 
 const categories = [
   { name: 'Books', icon: BookOpen, value: 'BOOKS', color: 'bg-blue-500' },
@@ -27,6 +28,7 @@ const categories = [
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
+  const { campus } = useCampus();
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -37,7 +39,8 @@ const Home: React.FC = () => {
           page: 1,
           limit: 8,
           sortBy: 'createdAt',
-          sortOrder: 'desc'
+          sortOrder: 'desc',
+          college: campus || undefined
         });
         setFeaturedProducts(response.data.data.products);
       } catch (error) {
@@ -48,7 +51,7 @@ const Home: React.FC = () => {
     };
 
     fetchFeaturedProducts();
-  }, []);
+  }, [campus]);
 
   const handleCategoryClick = (category: string) => {
     navigate(`/products?category=${category}`);
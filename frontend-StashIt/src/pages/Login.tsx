@@ -17,13 +17,9 @@ const Login: React.FC = () => {
 
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    const collegeEmailRegex = /\.(edu|ac\.in|university\.edu)$/i;
     if (!emailRegex.test(email)) {
       return 'Please enter a valid email address';
     }
-    if (!collegeEmailRegex.test(email)) {
-      return 'Please use your college email address (.edu, .ac.in, etc.)';
-    }
     return null;
   };
 
@@ -105,15 +101,20 @@ const Login: React.FC = () => {
                 />
                 <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
               </div>
-              <p className="mt-1 text-xs text-gray-500">
-                Must be a valid college email (.edu, .ac.in, etc.)
-              </p>
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="mt-1 relative">
                 <input
                   id="password"
@@ -2,9 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Product } from '../types';
-import { productAPI } from '../lib/api';
+import { productAPI, wishlistAPI } from '../lib/api';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
+import WishlistButton from '../components/wishlist/WishlistButton';
+import SellerReviews from '../components/reviews/SellerReviews';
+import ReportButton from '../components/reports/ReportButton';
 
 const ProductDetails: React.FC = () => {
   const { productId } = useParams<{ productId: string }>();
@@ -13,6 +16,7 @@ const ProductDetails: React.FC = () => {
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentImage, setCurrentImage] = useState(0);
+  const [isSaved, setIsSaved] = useState(false);
 
   useEffect(() => {
     const fetchProduct = async () => {
@@ -32,6 +36,21 @@ const ProductDetails: React.FC = () => {
     fetchProduct();
   }, [productId]);
 
+  useEffect(() => {
+    if (!user || !productId) return;
+
+    const fetchWishlistStatus = async () => {
+      try {
+        const response = await wishlistAPI.checkProduct(productId);
+        setIsSaved(response.data.data.inWishlist);
+      } catch (error) {
+        console.error('Error fetching wishlist status:', error);
+      }
+    };
+
+    fetchWishlistStatus();
+  }, [productId, user]);
+
   const formatCondition = (condition: string) => {
     return condition.toLowerCase().replace('_', ' ');
   };
@@ -148,7 +167,19 @@ const ProductDetails: React.FC = () => {
                   <p className="text-lg font-bold text-blue-600 mb-4">
                     ${product.price}
                   </p>
+                  {product.status !== 'ACTIVE' && (
+                    <span className="inline-block mb-4 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 capitalize">
+                      {product.status.toLowerCase()}
+                    </span>
+                  )}
                 </div>
+                {user?.id !== product.sellerId && (
+                  <WishlistButton
+                    productId={product.id}
+                    saved={isSaved}
+                    onChange={(_, saved) => setIsSaved(saved)}
+                  />
+                )}
               </div>
 
               <div className="space-y-4 mb-6">
@@ -177,6 +208,13 @@ const ProductDetails: React.FC = () => {
                     <p className="text-sm text-gray-500">{product.seller.college}</p>
                   </div>
                 </div>
+                <SellerReviews sellerId={product.sellerId} />
+                {user && user.id !== product.sellerId && (
+                  <div className="mt-4 flex gap-4">
+                    <ReportButton targetType="PRODUCT" targetId={product.id} label="Report listing" />
+                    <ReportButton targetType="USER" targetId={product.sellerId} label="Report seller" />
+                  </div>
+                )}
               </div>
 
               {/* Chat Button */}
@@ -1,9 +1,15 @@
 import React, { useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Search, Filter, X } from 'lucide-react';
-import { Product } from '../types';
-import { searchAPI } from '../lib/api';
+import { Search, Filter, X, Bookmark } from 'lucide-react';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { Product, ApiError, FacetCount, PriceBucket, SearchFacets } from '../types';
+import { searchAPI, wishlistAPI } from '../lib/api';
 import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useCampus } from '../hooks/useCampus';
+import WishlistButton from '../components/wishlist/WishlistButton';
+import HighlightedText from '../components/search/HighlightedText';
 
 interface FilterOptions {
   categories: string[];
@@ -23,6 +29,7 @@ interface FilterOptions {
 const CONDITIONS = ['NEW', 'LIKE_NEW', 'GOOD', 'FAIR', 'POOR'];
 const CATEGORIES = ['BOOKS', 'ELECTRONICS', 'FURNITURE', 'CLOTHING', 'SPORTS', 'FOOD', 'OTHER'];
 const DEFAULT_SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best Match', order: 'desc' },
   { value: 'createdAt', label: 'Newest First', order: 'desc' },
   { value: 'createdAt', label: 'Oldest First', order: 'asc' },
   { value: 'price', label: 'Price: Low to High', order: 'asc' },
@@ -33,7 +40,13 @@ const DEFAULT_SORT_OPTIONS = [
 
 const Products: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { campus, setCampus } = useCampus();
   const [products, setProducts] = useState<Product[]>([]);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [appliedColleges, setAppliedColleges] = useState<string[]>([]);
+  const [savedProductIds, setSavedProductIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     categories: CATEGORIES,
@@ -46,6 +59,8 @@ const Products: React.FC = () => {
     sortOptions: DEFAULT_SORT_OPTIONS
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState('');
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
@@ -55,11 +70,15 @@ const Products: React.FC = () => {
 
   // Get current filter values from URL params
   const currentQuery = searchParams.get('q') || '';
-  const currentCategory = searchParams.get('category') || '';
-  const currentCondition = searchParams.get('condition') || '';
+  // Categories and conditions can be picked several at a time, each as its
+  // own URL param
+  const currentCategories = searchParams.getAll('category');
+  const currentConditions = searchParams.getAll('condition');
   const currentMinPrice = searchParams.get('minPrice') || '';
   const currentMaxPrice = searchParams.get('maxPrice') || '';
-  const currentSortBy = searchParams.get('sortBy') || 'createdAt';
+  const currentHasImages = searchParams.get('hasImages') === 'true';
+  // Searches are ranked by relevance unless another order is picked
+  const currentSortBy = searchParams.get('sortBy') || (currentQuery ? 'relevance' : 'createdAt');
   const currentSortOrder = searchParams.get('sortOrder') || 'desc';
   const currentPage = parseInt(searchParams.get('page') || '1');
 
@@ -88,25 +107,63 @@ const Products: React.FC = () => {
     fetchFilterOptions();
   }, []);
 
+  // Fetch wishlisted product ids for the saved hearts
+  useEffect(() => {
+    if (!user) {
+      setSavedProductIds(new Set());
+      return;
+    }
+
+    const fetchWishlistIds = async () => {
+      try {
+        const response = await wishlistAPI.getWishlistIds();
+        setSavedProductIds(new Set(response.data.data.productIds));
+      } catch (error) {
+        console.error('Error fetching wishlist:', error);
+      }
+    };
+
+    fetchWishlistIds();
+  }, [user]);
+
+  const handleWishlistChange = (productId: string, saved: boolean) => {
+    setSavedProductIds(prev => {
+      const next = new Set(prev);
+      if (saved) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+  };
+
   // Fetch products based on filters
   useEffect(() => {
     const fetchProducts = async () => {
       setLoading(true);
       try {
-        const response = await searchAPI.searchProducts({
+        const response = await searchAPI.advancedSearch({
           query: currentQuery,
           page: currentPage,
           limit: pagination.limit,
-          category: currentCategory || undefined,
-          condition: currentCondition || undefined,
-          minPrice: currentMinPrice || undefined,
-          maxPrice: currentMaxPrice || undefined,
+          categories: currentCategories,
+          conditions: currentConditions,
+          // No campus picked searches the user's own; 'all' searches every campus
+          colleges: campus === 'all' ? [] : campus ? [campus] : undefined,
+          minPrice: currentMinPrice ? parseFloat(currentMinPrice) : undefined,
+          maxPrice: currentMaxPrice ? parseFloat(currentMaxPrice) : undefined,
+          hasImages: currentHasImages || undefined,
           sortBy: currentSortBy,
-          sortOrder: currentSortOrder
+          sortOrder: currentSortOrder,
+          facets: true
         });
 
         if (response.data.success) {
           setProducts(response.data.data.products || []);
+          setDidYouMean(response.data.data.didYouMean || null);
+          setFacets(response.data.data.facets || null);
+          setAppliedColleges(response.data.data.filters?.colleges || []);
           setPagination(prev => ({
             ...prev,
             ...(response.data.data.pagination || {})
@@ -115,13 +172,15 @@ const Products: React.FC = () => {
       } catch (error) {
         console.error('Error fetching products:', error);
         setProducts([]);
+        setDidYouMean(null);
+        setFacets(null);
       } finally {
         setLoading(false);
       }
     };
 
     fetchProducts();
-  }, [searchParams, pagination.limit]);
+  }, [searchParams, pagination.limit, campus]);
 
   const updateFilters = (updates: Record<string, string>) => {
     const newParams = new URLSearchParams(searchParams);
@@ -136,6 +195,47 @@ const Products: React.FC = () => {
     setSearchParams(newParams);
   };
 
+  // Add or remove one value of a multi-select filter
+  const toggleFilterValue = (key: string, value: string) => {
+    const values = searchParams.getAll(key);
+    const newParams = new URLSearchParams(searchParams);
+    newParams.delete(key);
+    (values.includes(value) ? values.filter(existing => existing !== value) : [...values, value])
+      .forEach(next => newParams.append(key, next));
+    newParams.set('page', '1');
+    setSearchParams(newParams);
+  };
+
+  const hasSearchCriteria = !!(
+    currentQuery || currentCategories.length || currentConditions.length ||
+    currentMinPrice || currentMaxPrice || currentHasImages
+  );
+
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveSearchName.trim()) return;
+
+    try {
+      await searchAPI.saveSearch({
+        name: saveSearchName.trim(),
+        filters: {
+          query: currentQuery || undefined,
+          categories: currentCategories.length ? currentCategories : undefined,
+          conditions: currentConditions.length ? currentConditions : undefined,
+          college: campus === 'all' ? undefined : campus || user?.college,
+          minPrice: currentMinPrice ? parseFloat(currentMinPrice) : undefined,
+          maxPrice: currentMaxPrice ? parseFloat(currentMaxPrice) : undefined,
+          hasImages: currentHasImages || undefined
+        }
+      });
+      toast.success("Search saved. We'll notify you about new matches");
+      setShowSaveSearch(false);
+      setSaveSearchName('');
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to save search');
+    }
+  };
+
   const clearFilters = () => {
     setSearchParams({ page: '1' });
   };
@@ -144,6 +244,13 @@ const Products: React.FC = () => {
     updateFilters({ page: newPage.toString() });
   };
 
+  // Result count for a filter option; undefined until facets have loaded
+  const countFor = (options: FacetCount[] | undefined, value: string) =>
+    options?.find(option => option.value === value)?.count;
+
+  // Price filters are inclusive, so a bucket ends a cent below its max
+  const bucketMaxPrice = (bucket: PriceBucket) => (bucket.max - 0.01).toFixed(2);
+
   const formatCategory = (category: string) => {
     return category.toLowerCase().replace('_', ' ');
   };
@@ -172,6 +279,47 @@ const Products: React.FC = () => {
               </div>
             </div>
 
+            {/* Save Search */}
+            {user && hasSearchCriteria && (
+              showSaveSearch ? (
+                <form onSubmit={handleSaveSearch} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    placeholder="Name this search"
+                    value={saveSearchName}
+                    onChange={(e) => setSaveSearchName(e.target.value)}
+                    autoFocus
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!saveSearchName.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowSaveSearch(false)}
+                    className="p-2 text-gray-500 hover:text-gray-700"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={() => {
+                    setSaveSearchName(currentQuery || currentCategories.map(formatCategory).join(', '));
+                    setShowSaveSearch(true);
+                  }}
+                  className="flex items-center justify-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  <Bookmark className="h-5 w-5 mr-2" />
+                  Save this search
+                </button>
+              )
+            )}
+
             {/* Filter Toggle Button */}
             <button
               onClick={() => setShowFilters(!showFilters)}
@@ -206,25 +354,27 @@ const Products: React.FC = () => {
               <div className="p-6">
                 <h2 className="text-lg font-semibold mb-4">Sort By</h2>
                 <div className="space-y-2">
-                  {filterOptions?.sortOptions.map((option) => (
-                    <label
-                      key={`${option.value}:${option.order}`}
-                      className="flex items-center cursor-pointer p-2 hover:bg-gray-50 rounded-md"
-                    >
-                      <input
-                        type="radio"
-                        name="sort"
-                        value={`${option.value}:${option.order}`}
-                        checked={currentSortBy === option.value && currentSortOrder === option.order}
-                        onChange={(e) => {
-                          const [sortBy, sortOrder] = e.target.value.split(':');
-                          updateFilters({ sortBy, sortOrder });
-                        }}
-                        className="mr-3 h-4 w-4 text-blue-600"
-                      />
-                      <span className="text-sm text-gray-700">{option.label}</span>
-                    </label>
-                  ))}
+                  {filterOptions?.sortOptions
+                    .filter((option) => option.value !== 'relevance' || currentQuery)
+                    .map((option) => (
+                      <label
+                        key={`${option.value}:${option.order}`}
+                        className="flex items-center cursor-pointer p-2 hover:bg-gray-50 rounded-md"
+                      >
+                        <input
+                          type="radio"
+                          name="sort"
+                          value={`${option.value}:${option.order}`}
+                          checked={currentSortBy === option.value && currentSortOrder === option.order}
+                          onChange={(e) => {
+                            const [sortBy, sortOrder] = e.target.value.split(':');
+                            updateFilters({ sortBy, sortOrder });
+                          }}
+                          className="mr-3 h-4 w-4 text-blue-600"
+                        />
+                        <span className="text-sm text-gray-700">{option.label}</span>
+                      </label>
+                    ))}
                 </div>
               </div>
 
@@ -232,7 +382,7 @@ const Products: React.FC = () => {
               <div className="p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-lg font-semibold">Categories</h2>
-                  {currentCategory && (
+                  {currentCategories.length > 0 && (
                     <button
                       onClick={() => updateFilters({ category: '' })}
                       className="text-sm text-blue-600 hover:text-blue-700"
@@ -242,19 +392,27 @@ const Products: React.FC = () => {
                   )}
                 </div>
                 <div className="grid grid-cols-2 gap-2">
-                  {CATEGORIES.map((category) => (
-                    <button
-                      key={category}
-                      onClick={() => updateFilters({ category })}
-                      className={`px-3 py-2 text-sm rounded-md transition-colors ${
-                        category === currentCategory
-                          ? 'bg-blue-100 text-blue-700 font-medium'
-                          : 'text-gray-700 hover:bg-gray-100'
-                      }`}
-                    >
-                      {formatCategory(category)}
-                    </button>
-                  ))}
+                  {CATEGORIES.map((category) => {
+                    const count = countFor(facets?.categories, category);
+                    const isSelected = currentCategories.includes(category);
+
+                    return (
+                      <button
+                        key={category}
+                        onClick={() => toggleFilterValue('category', category)}
+                        disabled={count === 0 && !isSelected}
+                        aria-pressed={isSelected}
+                        className={`flex items-center justify-between gap-1 px-3 py-2 text-sm rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          isSelected
+                            ? 'bg-blue-100 text-blue-700 font-medium'
+                            : 'text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent'
+                        }`}
+                      >
+                        <span className="truncate">{formatCategory(category)}</span>
+                        {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -262,7 +420,7 @@ const Products: React.FC = () => {
               <div className="p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-lg font-semibold">Condition</h2>
-                  {currentCondition && (
+                  {currentConditions.length > 0 && (
                     <button
                       onClick={() => updateFilters({ condition: '' })}
                       className="text-sm text-blue-600 hover:text-blue-700"
@@ -272,19 +430,27 @@ const Products: React.FC = () => {
                   )}
                 </div>
                 <div className="grid grid-cols-2 gap-2">
-                  {CONDITIONS.map((condition) => (
-                    <button
-                      key={condition}
-                      onClick={() => updateFilters({ condition })}
-                      className={`px-3 py-2 text-sm rounded-md transition-colors ${
-                        condition === currentCondition
-                          ? 'bg-blue-100 text-blue-700 font-medium'
-                          : 'text-gray-700 hover:bg-gray-100'
-                      }`}
-                    >
-                      {formatCondition(condition)}
-                    </button>
-                  ))}
+                  {CONDITIONS.map((condition) => {
+                    const count = countFor(facets?.conditions, condition);
+                    const isSelected = currentConditions.includes(condition);
+
+                    return (
+                      <button
+                        key={condition}
+                        onClick={() => toggleFilterValue('condition', condition)}
+                        disabled={count === 0 && !isSelected}
+                        aria-pressed={isSelected}
+                        className={`flex items-center justify-between gap-1 px-3 py-2 text-sm rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          isSelected
+                            ? 'bg-blue-100 text-blue-700 font-medium'
+                            : 'text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent'
+                        }`}
+                      >
+                        <span className="truncate">{formatCondition(condition)}</span>
+                        {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -318,10 +484,80 @@ const Products: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                {facets && facets.priceHistogram.length > 0 && (
+                  <div className="mt-3 space-y-1">
+                    {facets.priceHistogram.map((bucket) => {
+                      const isSelected = currentMinPrice === String(bucket.min) &&
+                        currentMaxPrice === bucketMaxPrice(bucket);
+
+                      return (
+                        <button
+                          key={bucket.min}
+                          onClick={() => updateFilters({ minPrice: String(bucket.min), maxPrice: bucketMaxPrice(bucket) })}
+                          disabled={bucket.count === 0 && !isSelected}
+                          className={`w-full flex items-center justify-between px-3 py-1.5 text-sm rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                            isSelected
+                              ? 'bg-blue-100 text-blue-700 font-medium'
+                              : 'text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent'
+                          }`}
+                        >
+                          <span>${bucket.min} - ${bucket.max}</span>
+                          <span className="text-xs text-gray-500">{bucket.count}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Photos */}
+              <div className="p-6">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={currentHasImages}
+                    onChange={(e) => updateFilters({ hasImages: e.target.checked ? 'true' : '' })}
+                    className="mr-3 h-4 w-4 text-blue-600 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Only listings with photos</span>
+                </label>
               </div>
 
+              {/* Campuses */}
+              {facets && facets.colleges.length > 0 && (
+                <div className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold">Campus</h2>
+                    {appliedColleges.length > 0 && (
+                      <button
+                        onClick={() => setCampus('all')}
+                        className="text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        All campuses
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    {facets.colleges.map((college) => (
+                      <button
+                        key={college.value}
+                        onClick={() => setCampus(college.value)}
+                        className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-left rounded-md transition-colors ${
+                          appliedColleges.includes(college.value)
+                            ? 'bg-blue-100 text-blue-700 font-medium'
+                            : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        <span className="truncate">{college.value}</span>
+                        <span className="text-xs text-gray-500">{college.count}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Clear All Filters */}
-              {(currentCategory || currentCondition || currentMinPrice || currentMaxPrice || currentSortBy !== 'createdAt' || currentSortOrder !== 'desc') && (
+              {(currentCategories.length > 0 || currentConditions.length > 0 || currentMinPrice || currentMaxPrice || currentHasImages || searchParams.has('sortBy') || currentSortOrder !== 'desc') && (
                 <div className="p-6">
                   <button
                     onClick={clearFilters}
@@ -336,6 +572,19 @@ const Products: React.FC = () => {
 
           {/* Products Grid */}
           <div className="flex-1">
+            {!loading && didYouMean && (
+              <p className="mb-4 text-gray-600">
+                Did you mean{' '}
+                <button
+                  type="button"
+                  onClick={() => updateFilters({ q: didYouMean })}
+                  className="font-medium text-blue-600 hover:underline"
+                >
+                  {didYouMean}
+                </button>
+                ?
+              </p>
+            )}
             {loading ? (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                 {[...Array(6)].map((_, i) => (
@@ -371,17 +620,30 @@ const Products: React.FC = () => {
                           to={`/product/${product.id}`}
                           className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow"
                         >
-                          <div className="aspect-square overflow-hidden">
+                          <div className="aspect-square overflow-hidden relative">
                             <img
                               src={product.images[0] || '/placeholder-image.jpg'}
                               alt={product.title}
                               className="w-full h-full object-cover hover:scale-105 transition-transform"
                             />
+                            {user?.id !== product.sellerId && (
+                              <WishlistButton
+                                productId={product.id}
+                                saved={savedProductIds.has(product.id)}
+                                onChange={handleWishlistChange}
+                                className="absolute top-2 right-2"
+                              />
+                            )}
                           </div>
                           <div className="p-4">
                             <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2">
-                              {product.title}
+                              {product.highlight ? <HighlightedText text={product.highlight.title} /> : product.title}
                             </h3>
+                            {product.highlight?.description && (
+                              <p className="text-sm text-gray-500 mb-1 line-clamp-2">
+                                <HighlightedText text={product.highlight.description} />
+                              </p>
+                            )}
                             <p className="text-sm text-gray-600 mb-2">
                               {product.seller.college}
                             </p>
@@ -1,10 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { userAPI, productAPI } from '../lib/api';
-import { Product } from '../types';
-import { Mail, Phone, School, User as UserIcon, Trash2 } from 'lucide-react';
+import { authAPI, userAPI, productAPI, searchAPI } from '../lib/api';
+import { Product, ProductStatus, NotificationPreferences, SavedSearch, Session, ApiError } from '../types';
+import { Mail, Phone, School, User as UserIcon, Trash2, Bell, BellOff, Monitor } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
 import { Link } from 'react-router-dom';
+import TransactionList from '../components/reviews/TransactionList';
+import BlockedUsers from '../components/chat/BlockedUsers';
+
+// Mirrors the transitions the product service allows a seller to make
+const STATUS_ACTIONS: Record<ProductStatus, { status: ProductStatus; label: string }[]> = {
+  DRAFT: [{ status: 'ACTIVE', label: 'Publish' }, { status: 'REMOVED', label: 'Remove' }],
+  ACTIVE: [{ status: 'RESERVED', label: 'Mark reserved' }, { status: 'SOLD', label: 'Mark sold' }, { status: 'REMOVED', label: 'Remove' }],
+  RESERVED: [{ status: 'ACTIVE', label: 'Release' }, { status: 'SOLD', label: 'Mark sold' }, { status: 'REMOVED', label: 'Remove' }],
+  SOLD: [{ status: 'ACTIVE', label: 'Relist' }, { status: 'REMOVED', label: 'Remove' }],
+  EXPIRED: [{ status: 'ACTIVE', label: 'Relist' }, { status: 'REMOVED', label: 'Remove' }],
+  REMOVED: []
+};
+
+const STATUS_FILTERS: { value: ProductStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'DRAFT', label: 'Drafts' },
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'RESERVED', label: 'Reserved' },
+  { value: 'SOLD', label: 'Sold' },
+  { value: 'EXPIRED', label: 'Expired' }
+];
+
+const STATUS_STYLES: Record<ProductStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  ACTIVE: 'bg-green-100 text-green-800',
+  RESERVED: 'bg-yellow-100 text-yellow-800',
+  SOLD: 'bg-blue-100 text-blue-800',
+  EXPIRED: 'bg-orange-100 text-orange-800',
+  REMOVED: 'bg-red-100 text-red-800'
+};
 
 const Profile: React.FC = () => {
   const { user: authUser, setUser } = useAuth();
@@ -12,38 +44,168 @@ const Profile: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [stats, setStats] = useState<any>(null);
   const [userProducts, setUserProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ProductStatus | ''>('');
+  const [saleProductId, setSaleProductId] = useState<string | null>(null);
+  const [buyers, setBuyers] = useState<{ id: string; firstName: string; lastName: string }[]>([]);
+  const [saleBuyerId, setSaleBuyerId] = useState('');
+  const [salePrice, setSalePrice] = useState('');
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [passwordData, setPasswordData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: ''
+  });
+  const [changingPassword, setChangingPassword] = useState(false);
   const [formData, setFormData] = useState({
     firstName: authUser?.firstName || '',
     lastName: authUser?.lastName || '',
-    college: authUser?.college || '',
     phone: authUser?.phone || '',
   });
 
   useEffect(() => {
     fetchUserStats();
-    fetchUserProducts();
+    fetchPreferences();
+    fetchSavedSearches();
+    fetchSessions();
   }, []);
 
-  const fetchUserStats = async () => {
-    try {
-      const response = await userAPI.getUserStats(authUser?.id || '');
-      setStats(response.data.data.stats);
-    } catch (error) {
-      console.error('Failed to fetch user stats:', error);
-    }
-  };
-
-  const fetchUserProducts = async () => {
+  const fetchUserProducts = useCallback(async () => {
     try {
       const response = await productAPI.getUserProducts(authUser?.id || '', {
         page: 1,
         limit: 10,
-        available: true
+        ...(statusFilter && { status: statusFilter })
       });
       setUserProducts(response.data.data.products);
     } catch (error) {
       console.error('Failed to fetch user products:', error);
     }
+  }, [authUser?.id, statusFilter]);
+
+  useEffect(() => {
+    fetchUserProducts();
+  }, [fetchUserProducts]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authAPI.getSessions();
+      setSessions(response.data.data.sessions);
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      await authAPI.revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      toast.success('Device signed out');
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      toast.error('Failed to sign out device');
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      await authAPI.revokeOtherSessions();
+      setSessions(prev => prev.filter(session => session.current));
+      toast.success('Signed out of all other devices');
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      toast.error('Failed to sign out other devices');
+    }
+  };
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await searchAPI.getSavedSearches();
+      setSavedSearches(response.data.data.savedSearches);
+    } catch (error) {
+      console.error('Failed to fetch saved searches:', error);
+    }
+  };
+
+  const handleToggleSavedSearch = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await searchAPI.updateSavedSearch(savedSearch.id, { notify: !savedSearch.notify });
+      setSavedSearches(prev => prev.map(search =>
+        search.id === savedSearch.id ? response.data.data.savedSearch : search
+      ));
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+      toast.error('Failed to update saved search');
+    }
+  };
+
+  const handleDeleteSavedSearch = async (savedSearchId: string) => {
+    try {
+      await searchAPI.deleteSavedSearch(savedSearchId);
+      setSavedSearches(prev => prev.filter(search => search.id !== savedSearchId));
+      toast.success('Saved search deleted');
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      toast.error('Failed to delete saved search');
+    }
+  };
+
+  const getSavedSearchLink = (savedSearch: SavedSearch) => {
+    const { query, category, categories, condition, conditions, minPrice, maxPrice, hasImages } = savedSearch.filters;
+    const params = new URLSearchParams();
+    if (query) params.set('q', query);
+    (categories || (category ? [category] : [])).forEach(value => params.append('category', value));
+    (conditions || (condition ? [condition] : [])).forEach(value => params.append('condition', value));
+    if (minPrice !== undefined) params.set('minPrice', minPrice.toString());
+    if (maxPrice !== undefined) params.set('maxPrice', maxPrice.toString());
+    if (hasImages) params.set('hasImages', 'true');
+    return `/products?${params.toString()}`;
+  };
+
+  const describeSavedSearch = (savedSearch: SavedSearch) => {
+    const { query, category, categories, condition, conditions, college, minPrice, maxPrice, hasImages } = savedSearch.filters;
+    const parts = [];
+    if (query) parts.push(`"${query}"`);
+    if (college) parts.push(college);
+    if (category) parts.push(category.toLowerCase());
+    if (categories) parts.push(categories.map(value => value.toLowerCase()).join(', '));
+    if (condition) parts.push(condition.toLowerCase().replace('_', ' '));
+    if (conditions) parts.push(conditions.map(value => value.toLowerCase().replace('_', ' ')).join(', '));
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      parts.push(`$${minPrice ?? 0} - ${maxPrice !== undefined ? `$${maxPrice}` : 'any'}`);
+    }
+    if (hasImages) parts.push('with photos');
+    return parts.join(' · ');
+  };
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await userAPI.getNotificationPreferences();
+      setPreferences(response.data.data.preferences);
+    } catch (error) {
+      console.error('Failed to fetch notification preferences:', error);
+    }
+  };
+
+  const handlePreferenceChange = async (key: keyof NotificationPreferences, enabled: boolean) => {
+    try {
+      const response = await userAPI.updateNotificationPreferences({ [key]: enabled });
+      setPreferences(response.data.data.preferences);
+      toast.success('Notification preferences updated');
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+      toast.error('Failed to update notification preferences');
+    }
+  };
+
+  const fetchUserStats = async () => {
+    try {
+      const response = await userAPI.getUserStats(authUser?.id || '');
+      setStats(response.data.data.stats);
+    } catch (error) {
+      console.error('Failed to fetch user stats:', error);
+    }
   };
 
   const handleRemoveProduct = async (productId: string) => {
@@ -57,6 +219,48 @@ const Profile: React.FC = () => {
     }
   };
 
+  const openSaleForm = async (product: Product) => {
+    setSaleProductId(product.id);
+    setSaleBuyerId(product.reservedForId || '');
+    setSalePrice('');
+    try {
+      const response = await productAPI.getBuyers(product.id);
+      setBuyers(response.data.data.buyers);
+    } catch (error) {
+      console.error('Failed to fetch buyers:', error);
+      setBuyers([]);
+    }
+  };
+
+  const handleStatusChange = async (
+    product: Product,
+    status: ProductStatus,
+    sale?: { buyerId?: string; salePrice?: number }
+  ) => {
+    try {
+      const response = await productAPI.updateStatus(product.id, { status, ...sale });
+      const updated: Product = response.data.data.product;
+      setUserProducts(prevProducts =>
+        status === 'REMOVED' || (statusFilter && statusFilter !== status)
+          ? prevProducts.filter(p => p.id !== product.id)
+          : prevProducts.map(p => p.id === product.id ? updated : p)
+      );
+      toast.success(response.data.message);
+      setSaleProductId(null);
+      fetchUserStats();
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to update listing');
+    }
+  };
+
+  const handleConfirmSale = (product: Product) => {
+    const price = parseFloat(salePrice);
+    handleStatusChange(product, 'SOLD', {
+      ...(saleBuyerId && { buyerId: saleBuyerId }),
+      ...(saleBuyerId && price > 0 && { salePrice: price })
+    });
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -80,6 +284,37 @@ const Profile: React.FC = () => {
     }
   };
 
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPasswordData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordData.newPassword.length < 6) {
+      toast.error('New password must be at least 6 characters');
+      return;
+    }
+    if (passwordData.newPassword !== passwordData.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      await authAPI.changePassword(passwordData.currentPassword, passwordData.newPassword);
+      setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setSessions(prev => prev.filter(session => session.current));
+      toast.success('Password changed. Other devices have been signed out.');
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to change password');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
   if (!authUser) return null;
 
   return (
@@ -156,14 +391,15 @@ const Profile: React.FC = () => {
                     <div className="mt-1 relative">
                       <input
                         type="text"
-                        name="college"
                         id="college"
-                        value={formData.college}
-                        onChange={handleChange}
-                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-                        required
+                        value={authUser.college}
+                        disabled
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-gray-50 text-gray-500"
                       />
                     </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Set from your college email address
+                    </p>
                   </div>
 
                   <div>
@@ -226,11 +462,15 @@ const Profile: React.FC = () => {
                 {stats && (
                   <div className="mt-8 border-t pt-8">
                     <h2 className="text-lg font-medium text-gray-900 mb-4">Activity Overview</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                       <div className="bg-gray-50 p-4 rounded-lg">
                         <p className="text-sm text-gray-500">Active Products</p>
                         <p className="text-2xl font-bold text-gray-900">{stats.activeProducts}</p>
                       </div>
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <p className="text-sm text-gray-500">Reserved</p>
+                        <p className="text-2xl font-bold text-gray-900">{stats.reservedProducts}</p>
+                      </div>
                       <div className="bg-gray-50 p-4 rounded-lg">
                         <p className="text-sm text-gray-500">Items Sold</p>
                         <p className="text-2xl font-bold text-gray-900">{stats.soldProducts}</p>
@@ -239,9 +479,182 @@ const Profile: React.FC = () => {
                   </div>
                 )}
 
-                {/* Active Products Section */}
+                {preferences && (
+                  <div className="mt-8 border-t pt-8">
+                    <h2 className="text-lg font-medium text-gray-900 mb-4">Alerts</h2>
+                    <p className="text-sm text-gray-500 mb-4">
+                      For items you've saved to your wishlist or asked a seller about.
+                    </p>
+                    <div className="space-y-3">
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={preferences.notifyPriceDrops}
+                          onChange={(e) => handlePreferenceChange('notifyPriceDrops', e.target.checked)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <span className="text-gray-900">Notify me when the price drops</span>
+                      </label>
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={preferences.notifyBackInStock}
+                          onChange={(e) => handlePreferenceChange('notifyBackInStock', e.target.checked)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <span className="text-gray-900">Notify me when an item is available again</span>
+                      </label>
+                    </div>
+                  </div>
+                )}
+
+                {/* Saved Searches Section */}
+                <div className="mt-8 border-t pt-8">
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">Saved Searches</h2>
+                  {savedSearches.length === 0 ? (
+                    <p className="text-gray-500">
+                      Save a search from the products page to get notified about new matches.
+                    </p>
+                  ) : (
+                    <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {savedSearches.map((savedSearch) => (
+                        <div key={savedSearch.id} className="flex items-center justify-between p-4">
+                          <Link to={getSavedSearchLink(savedSearch)} className="min-w-0 flex-1 hover:text-blue-600">
+                            <p className="font-medium text-gray-900 truncate">{savedSearch.name}</p>
+                            <p className="text-sm text-gray-500 truncate capitalize">{describeSavedSearch(savedSearch)}</p>
+                          </Link>
+                          <div className="flex items-center gap-2 ml-4">
+                            <button
+                              onClick={() => handleToggleSavedSearch(savedSearch)}
+                              title={savedSearch.notify ? 'Turn off notifications' : 'Turn on notifications'}
+                              className="p-2 rounded-full text-gray-600 hover:bg-gray-100"
+                            >
+                              {savedSearch.notify ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => handleDeleteSavedSearch(savedSearch.id)}
+                              title="Delete saved search"
+                              className="p-2 rounded-full text-red-600 hover:bg-gray-100"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Change Password Section */}
                 <div className="mt-8 border-t pt-8">
-                  <h2 className="text-lg font-medium text-gray-900 mb-4">Your Listed Products</h2>
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">Change Password</h2>
+                  <form onSubmit={handleChangePassword} className="space-y-4 max-w-md">
+                    <input
+                      type="password"
+                      name="currentPassword"
+                      autoComplete="current-password"
+                      required
+                      value={passwordData.currentPassword}
+                      onChange={handlePasswordChange}
+                      placeholder="Current password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <input
+                      type="password"
+                      name="newPassword"
+                      autoComplete="new-password"
+                      required
+                      value={passwordData.newPassword}
+                      onChange={handlePasswordChange}
+                      placeholder="New password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <input
+                      type="password"
+                      name="confirmPassword"
+                      autoComplete="new-password"
+                      required
+                      value={passwordData.confirmPassword}
+                      onChange={handlePasswordChange}
+                      placeholder="Confirm new password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={changingPassword}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {changingPassword ? 'Changing...' : 'Change password'}
+                    </button>
+                  </form>
+                </div>
+
+                {/* Sessions Section */}
+                {sessions.length > 0 && (
+                  <div className="mt-8 border-t pt-8">
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-lg font-medium text-gray-900">Active Sessions</h2>
+                      {sessions.some(session => !session.current) && (
+                        <button
+                          onClick={handleRevokeOtherSessions}
+                          className="text-sm font-medium text-red-600 hover:text-red-500"
+                        >
+                          Sign out all other devices
+                        </button>
+                      )}
+                    </div>
+                    <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {sessions.map((session) => (
+                        <div key={session.id} className="flex items-center justify-between p-4">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <Monitor className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                            <div className="min-w-0">
+                              <p className="text-gray-900 truncate">{session.userAgent}</p>
+                              <p className="text-sm text-gray-500">
+                                {session.current
+                                  ? 'This device'
+                                  : `Last active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`}
+                              </p>
+                            </div>
+                          </div>
+                          {!session.current && (
+                            <button
+                              onClick={() => handleRevokeSession(session.id)}
+                              className="ml-4 text-sm font-medium text-red-600 hover:text-red-500"
+                            >
+                              Sign out
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <TransactionList />
+
+                <BlockedUsers />
+
+                {/* Listings Section */}
+                <div className="mt-8 border-t pt-8">
+                  <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <h2 className="text-lg font-medium text-gray-900">Your Listings</h2>
+                    <div className="flex flex-wrap gap-2">
+                      {STATUS_FILTERS.map((filter) => (
+                        <button
+                          key={filter.value || 'all'}
+                          onClick={() => setStatusFilter(filter.value)}
+                          className={`px-3 py-1 text-sm rounded-full border ${
+                            statusFilter === filter.value
+                              ? 'bg-blue-600 border-blue-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {filter.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                     {userProducts.map((product) => (
                       <div key={product.id} className="group relative">
@@ -267,12 +680,85 @@ const Profile: React.FC = () => {
                               <span className="text-lg font-bold text-blue-600">
                                 ${product.price}
                               </span>
-                              <span className="text-xs text-gray-500 capitalize">
-                                {product.condition.toLowerCase().replace('_', ' ')}
+                              <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[product.status]}`}>
+                                {product.status.toLowerCase()}
                               </span>
                             </div>
+                            {product.status === 'RESERVED' && product.reservedUntil && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Reserved until {new Date(product.reservedUntil).toLocaleString()}
+                              </p>
+                            )}
+                            {product.status === 'ACTIVE' && product.expiresAt && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Expires {formatDistanceToNow(new Date(product.expiresAt), { addSuffix: true })}
+                              </p>
+                            )}
                           </div>
                         </Link>
+                        {STATUS_ACTIONS[product.status].length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {STATUS_ACTIONS[product.status].map((action) => (
+                              <button
+                                key={action.status}
+                                onClick={() => action.status === 'SOLD'
+                                  ? openSaleForm(product)
+                                  : handleStatusChange(product, action.status)}
+                                className={`px-2 py-1 text-xs rounded-md border ${
+                                  action.status === 'REMOVED'
+                                    ? 'border-red-300 text-red-600 hover:bg-red-50'
+                                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                }`}
+                              >
+                                {action.label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {saleProductId === product.id && (
+                          <div className="mt-2 p-3 border border-gray-200 rounded-md space-y-2">
+                            <label className="block text-xs font-medium text-gray-700">
+                              Who bought it?
+                              <select
+                                value={saleBuyerId}
+                                onChange={(e) => setSaleBuyerId(e.target.value)}
+                                className="mt-1 block w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              >
+                                <option value="">Someone else / not on Stash It</option>
+                                {buyers.map((buyer) => (
+                                  <option key={buyer.id} value={buyer.id}>
+                                    {buyer.firstName} {buyer.lastName}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            {saleBuyerId && (
+                              <input
+                                type="number"
+                                min="0.01"
+                                step="0.01"
+                                value={salePrice}
+                                onChange={(e) => setSalePrice(e.target.value)}
+                                placeholder="Sale price (defaults to the accepted offer or listed price)"
+                                className="block w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            )}
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleConfirmSale(product)}
+                                className="px-2 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                              >
+                                Mark sold
+                              </button>
+                              <button
+                                onClick={() => setSaleProductId(null)}
+                                className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
                         <button
                           onClick={() => handleRemoveProduct(product.id)}
                           className="absolute top-2 right-2 text-red-600 hover:text-red-700 p-2 rounded-full bg-white shadow-md hover:shadow-lg transition-all"
@@ -283,7 +769,9 @@ const Profile: React.FC = () => {
                     ))}
                     {userProducts.length === 0 && (
                       <div className="col-span-full text-center py-8 text-gray-500">
-                        You don't have any active products listed for sale.
+                        {statusFilter
+                          ? `You don't have any ${statusFilter.toLowerCase()} listings.`
+                          : "You haven't listed anything yet."}
                       </div>
                     )}
                   </div>
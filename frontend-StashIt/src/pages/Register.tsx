@@ -1,10 +1,13 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Mail, Lock, User, School, Phone, Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { RegisterData } from '../types';
+import { College, RegisterData } from '../types';
+import { collegeAPI } from '../lib/api';
 import toast from 'react-hot-toast';
 
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 const Register: React.FC = () => {
   const { register, loading } = useAuth();
   const navigate = useNavigate();
@@ -14,27 +17,51 @@ const Register: React.FC = () => {
     password: '',
     firstName: '',
     lastName: '',
-    college: '',
     phone: '',
   });
+  const [college, setCollege] = useState<College | null>(null);
+  const [collegeLookup, setCollegeLookup] = useState<'idle' | 'loading' | 'found' | 'not-found'>('idle');
   
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
+  const email = formData.email.trim();
+
+  // Look up the college for the email domain as the user types
+  useEffect(() => {
+    if (!EMAIL_REGEX.test(email)) {
+      setCollege(null);
+      setCollegeLookup('idle');
+      return;
+    }
+
+    setCollegeLookup('loading');
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await collegeAPI.lookupByEmail(email);
+        const match: College | null = response.data.data.college;
+        setCollege(match);
+        setCollegeLookup(match ? 'found' : 'not-found');
+      } catch {
+        setCollege(null);
+        setCollegeLookup('idle');
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [email]);
+
   const validateEmail = (email: string) => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    const collegeEmailRegex = /\.(edu|ac\.in|university\.edu)$/i;
-    
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_REGEX.test(email)) {
       return 'Please enter a valid email address';
     }
-    
-    if (!collegeEmailRegex.test(email)) {
-      return 'Please use your college email address (@university.edu, @university.ac.in, etc.)';
+
+    if (collegeLookup === 'not-found') {
+      return 'Please use an email address from a supported college';
     }
-    
+
     return null;
   };
 
@@ -49,7 +76,7 @@ const Register: React.FC = () => {
     e.preventDefault();
     
     // Validate required fields
-    if (!formData.email || !formData.password || !formData.firstName || !formData.lastName || !formData.college) {
+    if (!formData.email || !formData.password || !formData.firstName || !formData.lastName) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -184,26 +211,25 @@ const Register: React.FC = () => {
                 <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
               </div>
               <p className="mt-1 text-xs text-gray-500">
-                Must be a valid college email (@university.edu, @university.ac.in, etc.)
+                Your college is determined by your email address
               </p>
             </div>
 
             <div>
-              <label htmlFor="college" className="block text-sm font-medium text-gray-700">
+              <span className="block text-sm font-medium text-gray-700">
                 College/University
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="college"
-                  name="college"
-                  type="text"
-                  required
-                  value={formData.college}
-                  onChange={handleChange}
-                  className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="University of Example"
-                />
-                <School className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              </span>
+              <div className="mt-1 flex items-center space-x-2 px-3 py-2 border border-gray-200 rounded-md bg-gray-50">
+                <School className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                {collegeLookup === 'found' && college ? (
+                  <span className="text-gray-900">{college.name}</span>
+                ) : collegeLookup === 'not-found' ? (
+                  <span className="text-sm text-red-600">We don't support this email domain yet</span>
+                ) : collegeLookup === 'loading' ? (
+                  <span className="text-sm text-gray-500">Looking up your college...</span>
+                ) : (
+                  <span className="text-sm text-gray-500">Enter your college email above</span>
+                )}
               </div>
             </div>
 
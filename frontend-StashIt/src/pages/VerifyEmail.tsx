@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Mail, KeyRound, CheckCircle, XCircle } from 'lucide-react';
+import { AxiosError } from 'axios';
+import toast from 'react-hot-toast';
+import { authAPI } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { ApiError, User } from '../types';
+
+type Status = 'idle' | 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail: React.FC = () => {
+  const { user, setUser } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [email, setEmail] = useState(user?.email || '');
+  const [code, setCode] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const submittedToken = useRef<string | null>(null);
+
+  const handleVerified = useCallback((verifiedUser: User) => {
+    setStatus('verified');
+    // Keep the signed-in user in sync if they verified their own address
+    if (user && user.id === verifiedUser.id) {
+      const updatedUser = { ...user, isVerified: true };
+      setUser(updatedUser);
+      localStorage.setItem('user', JSON.stringify(updatedUser));
+    }
+    toast.success('Email verified!');
+  }, [user, setUser]);
+
+  useEffect(() => {
+    setEmail(prev => prev || user?.email || '');
+  }, [user]);
+
+  useEffect(() => {
+    // Links are single use, so only submit each token once
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    authAPI.verifyEmail({ token })
+      .then((response) => handleVerified(response.data.data.user))
+      .catch((error: AxiosError<ApiError>) => {
+        setStatus('failed');
+        setErrorMessage(error.response?.data?.message || 'Verification failed');
+      });
+  }, [token, handleVerified]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email || !/^[0-9]{6}$/.test(code)) {
+      toast.error('Please enter your email and the 6-digit code');
+      return;
+    }
+
+    setStatus('verifying');
+    try {
+      const response = await authAPI.verifyEmail({ email, code });
+      handleVerified(response.data.data.user);
+    } catch (error) {
+      setStatus('idle');
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Verification failed');
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      await authAPI.resendVerification();
+      toast.success('Verification email sent');
+    } catch (error) {
+      toast.error((error as AxiosError<ApiError>).response?.data?.message || 'Failed to send verification email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (status === 'verified' || user?.isVerified) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center px-4">
+        <CheckCircle className="w-16 h-16 text-green-500 mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Your email is verified</h2>
+        <p className="text-gray-600 mb-6">You can now post listings and message sellers.</p>
+        <button
+          onClick={() => navigate(user ? '/' : '/login')}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          {user ? 'Continue' : 'Sign in'}
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'verifying' && token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="text-center text-3xl font-bold text-gray-900">
+          Verify your email
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          Enter the 6-digit code from the email we sent you, or open the link in it.
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {status === 'failed' && (
+            <div className="mb-6 flex items-start space-x-2 rounded-md bg-red-50 p-3 text-sm text-red-700">
+              <XCircle className="w-5 h-5 flex-shrink-0" />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                College email address
+              </label>
+              <div className="mt-1 relative">
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="your.email@university.edu"
+                />
+                <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Verification code
+              </label>
+              <div className="mt-1 relative">
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md tracking-widest placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="123456"
+                />
+                <KeyRound className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={status === 'verifying'}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {status === 'verifying' ? 'Verifying...' : 'Verify email'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center text-sm text-gray-600">
+            {user ? (
+              <>
+                Didn't get the email?{' '}
+                <button
+                  onClick={handleResend}
+                  disabled={isResending}
+                  className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                >
+                  {isResending ? 'Sending...' : 'Send a new one'}
+                </button>
+              </>
+            ) : (
+              <>
+                <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
+                  Sign in
+                </Link>
+                {' '}to request a new verification email.
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -4,11 +4,21 @@ export interface User {
   firstName: string;
   lastName: string;
   college: string;
+  collegeId?: string | null;
   phone?: string;
   isVerified: boolean;
+  role?: 'USER' | 'ADMIN';
   createdAt: string;
 }
 
+export type ProductStatus = 'DRAFT' | 'ACTIVE' | 'RESERVED' | 'SOLD' | 'EXPIRED' | 'REMOVED';
+
+// Search snippets with matched words wrapped in <mark> tags
+export interface SearchHighlight {
+  title: string;
+  description: string | null;
+}
+
 export interface Product {
   id: string;
   sellerId: string;
@@ -18,7 +28,10 @@ export interface Product {
   condition: 'NEW' | 'LIKE_NEW' | 'GOOD' | 'FAIR' | 'POOR';
   category: 'BOOKS' | 'ELECTRONICS' | 'FURNITURE' | 'CLOTHING' | 'SPORTS' | 'FOOD' | 'OTHER';
   images: string[];
-  isAvailable: boolean;
+  status: ProductStatus;
+  reservedForId?: string | null;
+  reservedUntil?: string | null;
+  expiresAt?: string | null;
   createdAt: string;
   updatedAt: string;
   seller: {
@@ -27,15 +40,115 @@ export interface Product {
     lastName: string;
     college: string;
   };
+  highlight?: SearchHighlight;
+}
+
+export interface Reputation {
+  averageRating: number | null;
+  reviewCount: number;
+  completedSales: number;
+}
+
+export interface PublicProfile {
+  id: string;
+  firstName: string;
+  lastName: string;
+  college: string;
+  createdAt: string;
+  activeProductsCount: number;
+  reputation: Reputation;
+}
+
+export interface Review {
+  id: string;
+  rating: number;
+  comment?: string | null;
+  createdAt: string;
+  reviewer: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  product: {
+    id: string;
+    title: string;
+  };
+  role: 'SELLER' | 'BUYER';
+}
+
+export interface Transaction {
+  id: string;
+  productId: string;
+  sellerId: string;
+  buyerId: string;
+  price: string;
+  completedAt: string;
+  role: 'SELLER' | 'BUYER';
+  product: {
+    id: string;
+    title: string;
+    images: string[];
+  };
+  seller: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  buyer: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  myReview: { rating: number; comment?: string | null } | null;
+  theirReview: { rating: number; comment?: string | null } | null;
+}
+
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  productId: string;
+  priceAtSave: number;
+  createdAt: string;
+  priceChange: number;
+  priceDropped: boolean;
+  product: Product;
 }
 
+export type AttachmentType = 'IMAGE' | 'LISTING';
+
+export interface MessageAttachment {
+  id: string;
+  type: AttachmentType;
+  url?: string | null;
+  thumbnailUrl?: string | null;
+  width?: number | null;
+  height?: number | null;
+  productId?: string | null;
+  position: number;
+  product?: {
+    id: string;
+    title: string;
+    price: number;
+    images: string[];
+    status: ProductStatus;
+  } | null;
+}
+
+// What send-message accepts for each attachment
+export type OutgoingAttachment =
+  | { type: 'IMAGE'; attachmentId: string }
+  | { type: 'LISTING'; productId: string };
+
 export interface Message {
   id: string;
+  conversationId?: string;
   senderId: string;
   receiverId: string;
   productId: string;
   content: string;
+  clientMessageId?: string | null;
   isRead: boolean;
+  readAt?: string | null;
   createdAt: string;
   sender: {
     id: string;
@@ -47,8 +160,24 @@ export interface Message {
     firstName: string;
     lastName: string
   };
+  attachments?: MessageAttachment[];
 }
 
+// lastSeenAt is when the user's last connection closed, null while online
+export interface UserPresence {
+  isOnline: boolean;
+  lastSeenAt: string | null;
+}
+
+// The current user's own settings for a conversation
+export interface ConversationState {
+  isArchived: boolean;
+  isMuted: boolean;
+  isPinned: boolean;
+}
+
+export type ConversationFilter = 'inbox' | 'archived' | 'muted' | 'all';
+
 export interface Conversation {
   id: string;
   user1Id: string;
@@ -71,12 +200,14 @@ export interface Conversation {
     title: string;
     images: string[];
     price: number;
-    isAvailable: boolean;
+    status: ProductStatus;
+    sellerId?: string;
   };
   otherUser?: {
     id: string;
     firstName: string;
     lastName: string;
+    presence?: UserPresence | null;
   };
   lastMessage?: {
     content: string;
@@ -86,8 +217,137 @@ export interface Conversation {
       firstName: string;
       lastName: string;
     };
+    attachments?: { type: AttachmentType }[];
   };
   unreadCount: number;
+  state?: ConversationState;
+}
+
+// Unread messages outside muted conversations, for the header badge
+export interface MessageUnreadCount {
+  unreadCount: number;
+  conversationCount: number;
+}
+
+export type OfferStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'COUNTERED' | 'EXPIRED';
+
+export interface Offer {
+  id: string;
+  conversationId: string;
+  productId: string;
+  buyerId: string;
+  sellerId: string;
+  proposedById: string;
+  amount: string;
+  message?: string | null;
+  status: OfferStatus;
+  counterOfId?: string | null;
+  expiresAt: string;
+  respondedAt?: string | null;
+  createdAt: string;
+  proposedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  product: {
+    id: string;
+    title: string;
+    category: Product['category'];
+    status: ProductStatus;
+    reservedForId?: string | null;
+    reservedUntil?: string | null;
+  };
+}
+
+export interface UserBlock {
+  id: string;
+  blockedId: string;
+  createdAt: string;
+  blocked: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    college: string;
+  };
+}
+
+export type ReportTargetType = 'PRODUCT' | 'USER' | 'MESSAGE';
+export type ReportReason = 'SCAM' | 'SPAM' | 'ABUSE' | 'PROHIBITED_ITEM' | 'OTHER';
+export type ReportStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+
+export interface Report {
+  id: string;
+  targetType: ReportTargetType;
+  reason: ReportReason;
+  details?: string | null;
+  status: ReportStatus;
+  resolution?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  reporter: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  reportedUser: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    isSuspended: boolean;
+  };
+  resolvedBy?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  product?: {
+    id: string;
+    title: string;
+    status: ProductStatus;
+    images: string[];
+  } | null;
+  message?: {
+    id: string;
+    content: string;
+    createdAt: string;
+  } | null;
+}
+
+export type NotificationType =
+  | 'PRICE_DROP'
+  | 'BACK_IN_STOCK'
+  | 'SAVED_SEARCH_MATCH'
+  | 'NEW_MESSAGE'
+  | 'OFFER'
+  | 'REVIEW'
+  | 'MODERATION';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  notifyPriceDrops: boolean;
+  notifyBackInStock: boolean;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
 }
 
 export interface AuthContextType {
@@ -105,10 +365,19 @@ export interface RegisterData {
   password: string;
   firstName: string;
   lastName: string;
-  college: string;
   phone?: string;
 }
 
+export interface College {
+  id: string;
+  name: string;
+  domains?: string[];
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  isActive?: boolean;
+}
+
 export interface LoginData {
   email: string;
   password: string;
@@ -124,6 +393,70 @@ export interface ProductFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Prices from min up to but not including max
+export interface PriceBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Result counts for each filter option, given the other filters in use
+export interface SearchFacets {
+  categories: FacetCount[];
+  conditions: FacetCount[];
+  colleges: FacetCount[];
+  priceHistogram: PriceBucket[];
+}
+
+// Body of POST /search/advanced; each list matches any of its values.
+// Leaving colleges out searches the user's own campus, an empty list every campus.
+export interface AdvancedSearchParams {
+  query?: string;
+  categories?: string[];
+  conditions?: string[];
+  colleges?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  listedAfter?: string;
+  listedBefore?: string;
+  hasImages?: boolean;
+  sellerId?: string;
+  sortBy?: string;
+  sortOrder?: string;
+  page?: number;
+  limit?: number;
+  hideBlocked?: boolean;
+  facets?: boolean;
+}
+
+export interface SavedSearchFilters {
+  query?: string;
+  category?: string;
+  categories?: string[];
+  condition?: string;
+  conditions?: string[];
+  college?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  hasImages?: boolean;
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  filters: SavedSearchFilters;
+  notify: boolean;
+  lastNotifiedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Pagination {
   page: number;
   limit: number;
@@ -131,6 +464,22 @@ export interface Pagination {
   pages: number;
 }
 
+// Cursor over a conversation's messages; before/after are the ids of the
+// oldest and newest message returned
+export interface MessageCursor {
+  limit: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  before: string | null;
+  after: string | null;
+}
+
+export interface MessageHistoryParams {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message: string;